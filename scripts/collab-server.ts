@@ -0,0 +1,31 @@
+import { readFileSync } from 'fs';
+import { WebSocketServer } from 'ws';
+
+import { parseMarkdown } from '../src/markdown';
+import { CollabAuthority } from '../src/plugin-collab';
+import { resultSchema } from '../src/schema';
+
+// 协同编辑的 WebSocket authority, 文档只保存在内存中:
+//   npm run collab-server
+//   PORT=8080 DOC=./notes.md npm run collab-server
+// 然后打开 http://localhost:3000/?collab=ws://localhost:8080&name=xx
+const port = Number(process.env.PORT) || 8080;
+const file = process.env.DOC;
+
+const doc = file
+  ? parseMarkdown(readFileSync(file, 'utf8'))
+  : resultSchema.topNodeType.createAndFill();
+if (!doc) throw new Error('Cannot create an empty document');
+
+const authority = new CollabAuthority(doc);
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  const connection = authority.connect((message) => socket.send(message));
+  socket.on('message', (data) => connection.receive(String(data)));
+  socket.on('close', () => connection.close());
+});
+
+server.on('listening', () => {
+  console.log(`[collab] authority listening on ws://localhost:${port}`);
+});
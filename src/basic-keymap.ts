@@ -0,0 +1,195 @@
+import { keydownHandler } from 'prosemirror-keymap';
+import { type EditorState, type Transaction, Plugin } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+type Command = (
+  state: EditorState,
+  dispatch?: (tr: Transaction) => void,
+  view?: EditorView,
+) => boolean;
+
+// 与 prosemirror-keymap 判断 Mod 键的方式一致
+export const mac =
+  typeof navigator != 'undefined' ? /Mac|iP(hone|[oa]d)/.test(navigator.platform) : false;
+
+// 按键写法同 prosemirror-keymap, 如 Mod-b, Shift-Ctrl-1
+// keys 在所有平台生效, mac / other 只在对应平台追加
+export interface KeySpec {
+  keys?: string[];
+  mac?: string[];
+  other?: string[];
+}
+
+export interface KeyBinding<Name extends string = string> extends KeySpec {
+  name: Name;
+  description: string;
+  command: Command;
+}
+
+// 按命令名配置: false 取消绑定, 字符串或数组在所有平台替换默认按键
+export type KeyBindingConfig = string | string[] | KeySpec | false;
+
+export type KeymapConfig<Name extends string = string> = {
+  [name in Name]?: KeyBindingConfig;
+};
+
+// 当前平台生效的绑定
+export interface ActiveKeyBinding {
+  name: string;
+  description: string;
+  command: Command;
+  keys: string[];
+}
+
+// 快捷键列表中的一项, 只用于显示
+export interface KeyDescription {
+  name?: string;
+  description: string;
+  keys: string[];
+}
+
+// 插件自己处理的按键: 同一张表既用于绑定又用于快捷键列表, 两者不会不一致
+export interface DescribedKey extends KeyDescription {
+  command: Command;
+}
+
+// 插件在 spec.shortcuts 中登记自己处理的按键, 快捷键列表按插件顺序分组显示
+export interface ShortcutGroup {
+  title: string;
+  bindings: KeyDescription[];
+}
+
+// ======================================================== //
+//                         按键名                           //
+// ======================================================== //
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'];
+
+const parseKey = (key: string) => {
+  const parts = key.split(/-(?!$)/);
+  const name = parts[parts.length - 1];
+  const modifiers = new Set<string>();
+  parts.slice(0, -1).forEach((mod) => {
+    if (/^(cmd|meta|m)$/i.test(mod)) modifiers.add('Meta');
+    else if (/^a(lt)?$/i.test(mod)) modifiers.add('Alt');
+    else if (/^(c|ctrl|control)$/i.test(mod)) modifiers.add('Ctrl');
+    else if (/^s(hift)?$/i.test(mod)) modifiers.add('Shift');
+    else if (/^mod$/i.test(mod)) modifiers.add(mac ? 'Meta' : 'Ctrl');
+    else throw new Error(`Unrecognized modifier name: ${mod}`);
+  });
+  return {
+    name: name === 'Space' ? ' ' : name,
+    modifiers: MODIFIERS.filter((mod) => modifiers.has(mod)),
+  };
+};
+
+// 统一修饰键顺序, 用于检查冲突
+export const normalizeKey = (key: string) => {
+  const { name, modifiers } = parseKey(key);
+  return [...modifiers, name].join('-');
+};
+
+const MAC_SYMBOLS: { [mod: string]: string } = {
+  Ctrl: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+  Meta: '⌘',
+};
+
+const KEY_LABELS: { [name: string]: string } = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+// 可读的按键组合, 如 Mac 上 ⇧⌘Z, 其他平台 Ctrl+Shift+Z
+export const formatKey = (key: string) => {
+  const { name, modifiers } = parseKey(key);
+  const label = KEY_LABELS[name] || (name.length === 1 ? name.toUpperCase() : name);
+  if (mac) return modifiers.map((mod) => MAC_SYMBOLS[mod]).join('') + label;
+  return [...modifiers, label].join('+');
+};
+
+// ======================================================== //
+//                         解析配置                          //
+// ======================================================== //
+const platformKeys = ({ keys = [], mac: macKeys = [], other = [] }: KeySpec) => [
+  ...keys,
+  ...(mac ? macKeys : other),
+];
+
+// 按配置得到当前平台的绑定, 同一按键绑定了多个命令时后面的生效并给出警告
+// 只检查 bindings 之间的冲突: 插件自己处理的按键 (如候选弹窗的 Enter,
+// 查找面板的 Escape) 只在特定状态下生效, 与这里的绑定重叠是有意的, 不参与检查
+export const resolveKeyBindings = (
+  bindings: KeyBinding[],
+  config: KeymapConfig = {},
+): ActiveKeyBinding[] => {
+  const names = new Set(bindings.map(({ name }) => name));
+  Object.keys(config).forEach((name) => {
+    if (!names.has(name)) console.warn(`Unknown keymap command "${name}"`);
+  });
+
+  const owners = new Map<string, ActiveKeyBinding>();
+  const active: ActiveKeyBinding[] = [];
+  bindings.forEach((binding) => {
+    const { name, description, command } = binding;
+    const custom = config[name];
+    if (custom === false) return;
+    let spec: KeySpec = binding;
+    if (typeof custom === 'string') spec = { keys: [custom] };
+    else if (Array.isArray(custom)) spec = { keys: custom };
+    else if (custom) spec = custom;
+
+    const item: ActiveKeyBinding = { name, description, command, keys: [] };
+    platformKeys(spec).forEach((key) => {
+      const normalized = normalizeKey(key);
+      const owner = owners.get(normalized);
+      if (owner === item) return;
+      if (owner) {
+        console.warn(
+          `Key "${key}" is bound to both "${owner.name}" and "${name}", using "${name}"`,
+        );
+        owner.keys = owner.keys.filter((other) => normalizeKey(other) !== normalized);
+      }
+      owners.set(normalized, item);
+      item.keys.push(key);
+    });
+    active.push(item);
+  });
+  return active.filter(({ keys }) => keys.length);
+};
+
+// 转换为 prosemirror-keymap 的参数
+export const keyBindingsToKeymap = (bindings: DescribedKey[]) => {
+  const keys: { [key: string]: Command } = {};
+  bindings.forEach(({ command, keys: bound }) =>
+    bound.forEach((key) => (keys[key] = command)),
+  );
+  return keys;
+};
+
+// ======================================================== //
+//                       快捷键登记                          //
+// ======================================================== //
+export const shortcutGroups = (state: EditorState) =>
+  state.plugins
+    .map((plugin): ShortcutGroup | undefined => plugin.spec.shortcuts)
+    .filter((group): group is ShortcutGroup => !!group && !!group.bindings.length);
+
+// 只登记按键说明, 按键由其他插件处理
+export const describedKeys = (title: string, bindings: KeyDescription[]) =>
+  new Plugin({ shortcuts: { title, bindings } });
+
+// 同 prosemirror-keymap 的 keymap, 另外把按键说明登记到快捷键列表
+export const describedKeymap = (
+  title: string,
+  bindings: KeyDescription[],
+  keys: { [key: string]: Command },
+) =>
+  new Plugin({
+    props: { handleKeyDown: keydownHandler(keys) },
+    shortcuts: { title, bindings },
+  });
@@ -1,150 +1,337 @@
 const prefix = 'ProseMirror-prompt';
 
-export function openPrompt(options: { title: any; fields: any; callback: any }) {
-  const wrapper = document.body.appendChild(document.createElement('div'));
-  wrapper.className = prefix;
+// 校验函数返回错误信息, 通过时返回空值, 可以是异步的
+type ValidateResult = string | null | undefined | void;
+export type Validator = (value: any) => ValidateResult | Promise<ValidateResult>;
 
-  const mouseOutside: any = (e: { target: Node | null }) => {
-    if (!wrapper.contains(e.target)) close();
-  };
-  setTimeout(() => window.addEventListener('mousedown', mouseOutside), 50);
-  const close = () => {
-    window.removeEventListener('mousedown', mouseOutside);
-    if (wrapper.parentNode) wrapper.parentNode.removeChild(wrapper);
-  };
+export interface FieldOptions {
+  label: string;
+  required?: boolean;
+  value?: any;
+  validate?: Validator;
+  clean?: (value: any) => any;
+  // SelectField
+  options?: { value: string; label: string }[];
+  // NumberField
+  min?: number;
+  max?: number;
+  step?: number;
+  // TextAreaField
+  rows?: number;
+  // FileField
+  accept?: string;
+  multiple?: boolean;
+}
 
-  const domFields: any[] = [];
-  for (const name in options.fields) domFields.push(options.fields[name].render());
-
-  const submitButton = document.createElement('button');
-  submitButton.type = 'submit';
-  submitButton.className = prefix + '-submit';
-  submitButton.textContent = 'OK';
-  const cancelButton = document.createElement('button');
-  cancelButton.type = 'button';
-  cancelButton.className = prefix + '-cancel';
-  cancelButton.textContent = 'Cancel';
-  cancelButton.addEventListener('click', close);
-
-  const form = wrapper.appendChild(document.createElement('form'));
-  if (options.title)
-    form.appendChild(document.createElement('h5')).textContent = options.title;
-  domFields.forEach((field) => {
-    form.appendChild(document.createElement('div')).appendChild(field);
-  });
-  const buttons = form.appendChild(document.createElement('div'));
-  buttons.className = prefix + '-buttons';
-  buttons.appendChild(submitButton);
-  buttons.appendChild(document.createTextNode(' '));
-  buttons.appendChild(cancelButton);
-
-  const box = wrapper.getBoundingClientRect();
-  wrapper.style.top = (window.innerHeight - box.height) / 2 + 'px';
-  wrapper.style.left = (window.innerWidth - box.width) / 2 + 'px';
-
-  const submit = () => {
-    const params = getValues(options.fields, domFields);
-    if (params) {
-      close();
-      options.callback(params);
+export type Fields = { [name: string]: Field };
+
+// 由字段推导出的结果类型, 如 { src: TextField } => { src: string }
+export type PromptValues<F extends Fields> = {
+  [K in keyof F]: F[K] extends Field<infer V> ? V : never;
+};
+
+export interface PromptSpec<F extends Fields = Fields> {
+  title?: string;
+  fields: F;
+}
+
+// 渲染器负责展示弹窗和校验, 提交时返回各字段读到的值, 取消时返回 null
+export type PromptRenderer = (
+  spec: PromptSpec,
+) => Promise<{ [name: string]: any } | null>;
+
+export interface PromptOptions extends PromptSpec {
+  callback(params: { [name: string]: any }): void;
+}
+
+const FOCUSABLE = 'input, select, textarea, button, [tabindex]:not([tabindex="-1"])';
+
+let uid = 0;
+
+// 默认渲染器: 原生 DOM 弹窗
+export const renderDOMPrompt: PromptRenderer = (spec) =>
+  new Promise((resolve) => {
+    const id = `${prefix}-${++uid}`;
+    // 关闭后把焦点还给打开弹窗前的元素 (通常是编辑器)
+    const restoreFocus = document.activeElement as HTMLElement | null;
+
+    const wrapper = document.body.appendChild(document.createElement('div'));
+    wrapper.className = prefix;
+    wrapper.setAttribute('role', 'dialog');
+    wrapper.setAttribute('aria-modal', 'true');
+
+    const mouseOutside = (e: MouseEvent) => {
+      if (!wrapper.contains(e.target as Node)) close();
+    };
+    setTimeout(() => window.addEventListener('mousedown', mouseOutside), 50);
+    // 提交以外的关闭方式 (取消, 点击外部, Escape) 都返回 null
+    const close = (result: { [name: string]: any } | null = null) => {
+      window.removeEventListener('mousedown', mouseOutside);
+      if (wrapper.parentNode) wrapper.parentNode.removeChild(wrapper);
+      if (restoreFocus && restoreFocus.isConnected) restoreFocus.focus();
+      resolve(result);
+    };
+
+    const names = Object.keys(spec.fields);
+    const rows = names.map((name, i) => renderRow(spec.fields[name], `${id}-${i}`));
+
+    const submitButton = document.createElement('button');
+    submitButton.type = 'submit';
+    submitButton.className = prefix + '-submit';
+    submitButton.textContent = 'OK';
+    const cancelButton = document.createElement('button');
+    cancelButton.type = 'button';
+    cancelButton.className = prefix + '-cancel';
+    cancelButton.textContent = 'Cancel';
+    cancelButton.addEventListener('click', () => close());
+
+    const form = wrapper.appendChild(document.createElement('form'));
+    form.noValidate = true;
+    if (spec.title) {
+      const title = form.appendChild(document.createElement('h5'));
+      title.id = `${id}-title`;
+      title.textContent = spec.title;
+      wrapper.setAttribute('aria-labelledby', title.id);
     }
-  };
+    rows.forEach((row) => form.appendChild(row.dom));
+    const buttons = form.appendChild(document.createElement('div'));
+    buttons.className = prefix + '-buttons';
+    buttons.appendChild(submitButton);
+    buttons.appendChild(document.createTextNode(' '));
+    buttons.appendChild(cancelButton);
 
-  form.addEventListener('submit', (e) => {
-    e.preventDefault();
-    submit();
-  });
+    const box = wrapper.getBoundingClientRect();
+    wrapper.style.top = (window.innerHeight - box.height) / 2 + 'px';
+    wrapper.style.left = (window.innerWidth - box.width) / 2 + 'px';
 
-  form.addEventListener('keydown', (e) => {
-    if (e.keyCode == 27) {
-      e.preventDefault();
-      close();
-    } else if (e.keyCode == 13 && !(e.ctrlKey || e.metaKey || e.shiftKey)) {
+    let submitting = false;
+    const submit = async () => {
+      if (submitting) return;
+      submitting = true;
+      submitButton.disabled = true;
+      const values = await getValues(spec.fields, names, rows);
+      submitting = false;
+      submitButton.disabled = false;
+      // 校验期间弹窗可能已被关闭
+      if (values && wrapper.parentNode) close(values);
+    };
+
+    form.addEventListener('submit', (e) => {
       e.preventDefault();
       submit();
-    } else if (e.keyCode == 9) {
-      window.setTimeout(() => {
-        if (!wrapper.contains(document.activeElement)) close();
-      }, 500);
-    }
+    });
+
+    form.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        close();
+      } else if (
+        e.key === 'Enter' &&
+        !e.shiftKey &&
+        !(e.target instanceof HTMLButtonElement)
+      ) {
+        // 多行文本框中 Enter 换行, 用 Mod-Enter 提交
+        const mod = e.ctrlKey || e.metaKey;
+        if (e.target instanceof HTMLTextAreaElement ? mod : !mod) {
+          e.preventDefault();
+          submit();
+        }
+      } else if (e.key === 'Tab') {
+        trapFocus(form, e);
+      }
+    });
+
+    const input = form.querySelector<HTMLElement>(FOCUSABLE);
+    if (input) input.focus();
   });
 
-  const input = form.elements[0];
-  // @ts-ignore
-  if (input) input.focus();
-}
-
-function getValues(fields: { [x: string]: any }, domFields: any[]) {
-  let result = Object.create(null),
-    i = 0;
-  for (const name in fields) {
-    const field = fields[name],
-      dom = domFields[i++];
-    const value = field.read(dom),
-      bad = field.validate(value);
-    if (bad) {
-      reportInvalid(dom, bad);
-      return null;
-    }
-    result[name] = field.clean(value);
+// Tab 只在弹窗内循环
+function trapFocus(form: HTMLElement, e: KeyboardEvent) {
+  const focusable = Array.from(form.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => !(el as HTMLInputElement).disabled && el.offsetParent !== null,
+  );
+  if (!focusable.length) return;
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  if (e.shiftKey && document.activeElement === first) {
+    e.preventDefault();
+    last.focus();
+  } else if (!e.shiftKey && document.activeElement === last) {
+    e.preventDefault();
+    first.focus();
+  }
+}
+
+interface FieldRow {
+  dom: HTMLElement;
+  control: HTMLElement;
+  error: HTMLElement;
+  // 是否正在显示错误信息
+  invalid: boolean;
+}
+
+function renderRow(field: Field, id: string): FieldRow {
+  const dom = document.createElement('div');
+  dom.className = prefix + '-field';
+  const control = field.render();
+  const error = document.createElement('div');
+  error.id = `${id}-error`;
+  error.className = prefix + '-error';
+  error.setAttribute('role', 'alert');
+  error.hidden = true;
+  dom.appendChild(control);
+  dom.appendChild(error);
+
+  const row: FieldRow = { dom, control, error, invalid: false };
+  // 出错后随输入重新校验, 直到值合法才移除提示
+  const revalidate = async () => {
+    if (!row.invalid) return;
+    setError(row, await validateField(field, field.read(control)));
+  };
+  dom.addEventListener('input', revalidate);
+  dom.addEventListener('change', revalidate);
+  return row;
+}
+
+// 控件本身或其中的输入框
+const inputOf = (control: HTMLElement) =>
+  control.matches(FOCUSABLE)
+    ? control
+    : control.querySelector<HTMLElement>(FOCUSABLE) || control;
+
+function setError(row: FieldRow, message: ValidateResult) {
+  const input = inputOf(row.control);
+  row.invalid = !!message;
+  row.error.hidden = !message;
+  row.error.textContent = message || '';
+  row.dom.classList.toggle(prefix + '-field-invalid', !!message);
+  if (message) {
+    input.setAttribute('aria-invalid', 'true');
+    input.setAttribute('aria-describedby', row.error.id);
+  } else {
+    input.removeAttribute('aria-invalid');
+    input.removeAttribute('aria-describedby');
   }
+}
+
+// 校验单个字段的值, 自定义渲染器也可以使用
+export async function validateField(field: Field, value: any): Promise<ValidateResult> {
+  try {
+    return await field.validate(value);
+  } catch (e) {
+    return (e as Error).message || String(e);
+  }
+}
+
+async function getValues(fields: Fields, names: string[], rows: FieldRow[]) {
+  const values = names.map((name, i) => fields[name].read(rows[i].control));
+  const messages = await Promise.all(
+    names.map((name, i) => validateField(fields[name], values[i])),
+  );
+  messages.forEach((message, i) => setError(rows[i], message));
+
+  const firstInvalid = rows.find((row) => row.invalid);
+  if (firstInvalid) {
+    inputOf(firstInvalid.control).focus();
+    return null;
+  }
+
+  const result: { [name: string]: any } = Object.create(null);
+  names.forEach((name, i) => {
+    result[name] = values[i];
+  });
   return result;
 }
 
-function reportInvalid(
-  dom: { parentNode: any; offsetLeft: any; offsetWidth: any; offsetTop: number },
-  message: any,
-) {
-  // FIXME this is awful and needs a lot more work
-  const parent = dom.parentNode;
-  const msg = parent.appendChild(document.createElement('div'));
-  msg.style.left = dom.offsetLeft + dom.offsetWidth + 2 + 'px';
-  msg.style.top = dom.offsetTop - 5 + 'px';
-  msg.className = 'ProseMirror-invalid';
-  msg.textContent = message;
-  setTimeout(() => parent.removeChild(msg), 1500);
+let renderer: PromptRenderer = renderDOMPrompt;
+
+// 替换弹窗的渲染方式, 如用 React 组件渲染; 传 null 恢复默认
+export const setPromptRenderer = (custom: PromptRenderer | null) => {
+  renderer = custom || renderDOMPrompt;
+};
+
+// 打开弹窗, 提交时返回清洗后的值, 取消时返回 null
+export async function prompt<F extends Fields>(
+  spec: PromptSpec<F>,
+): Promise<PromptValues<F> | null> {
+  const values = await renderer(spec);
+  if (!values) return null;
+  const result: { [name: string]: any } = Object.create(null);
+  Object.keys(spec.fields).forEach((name) => {
+    result[name] = spec.fields[name].clean(values[name]);
+  });
+  return result as PromptValues<F>;
+}
+
+// 兼容回调写法
+export function openPrompt(options: PromptOptions) {
+  prompt(options).then((params) => {
+    if (params) options.callback(params);
+  });
+}
+
+// 带文字说明的控件, 用于没有 placeholder 的输入框
+function labelled(text: string, control: HTMLElement) {
+  const label = document.createElement('label');
+  label.className = prefix + '-label';
+  label.appendChild(document.createTextNode(text + ' '));
+  label.appendChild(control);
+  return label;
 }
 
 // ::- The type of field that `FieldPrompt` expects to be passed to it.
-export class Field {
-  options: any;
+export class Field<V = any> {
+  options: FieldOptions;
 
-  constructor(options: { label: string; required?: boolean; value?: any }) {
+  constructor(options: FieldOptions) {
     this.options = options;
   }
 
-  // render:: (state: EditorState, props: Object) → dom.Node
+  // :: () → dom.Node
   // Render the field to the DOM. Should be implemented by all subclasses.
+  render(): HTMLElement {
+    throw new Error('Field.render must be implemented');
+  }
 
   // :: (dom.Node) → any
   // Read the field's value from its DOM node.
-  read(dom: { value: any }) {
-    return dom.value;
+  read(dom: HTMLElement): V {
+    return (dom as HTMLInputElement).value as unknown as V;
+  }
+
+  // :: (any) → bool
+  // Whether the value counts as missing for `required` fields.
+  isEmpty(value: any) {
+    return value == null || value === '';
   }
 
   // :: (any) → ?string
   // A field-type-specific validation function.
-  validateType(_value: any) {}
+  validateType(_value: any): ValidateResult {
+    return undefined;
+  }
 
-  validate(value: any) {
-    if (!value && this.options.required) return 'Required field';
+  // :: (any) → ?string | Promise<?string>
+  // Run the built-in checks, then the `validate` option, which may be async.
+  validate(value: any): ValidateResult | Promise<ValidateResult> {
+    if (this.isEmpty(value)) return this.options.required ? 'Required field' : null;
     return (
-      // @ts-ignore
       this.validateType(value) || (this.options.validate && this.options.validate(value))
     );
   }
 
-  clean(value: any) {
+  clean(value: V): V {
     return this.options.clean ? this.options.clean(value) : value;
   }
 }
 
 // ::- A field class for single-line text fields.
-export class TextField extends Field {
+export class TextField extends Field<string> {
   render() {
     const input = document.createElement('input');
     input.type = 'text';
     input.placeholder = this.options.label;
+    input.setAttribute('aria-label', this.options.label);
     input.value = this.options.value || '';
     input.autocomplete = 'off';
     return input;
@@ -153,17 +340,120 @@ export class TextField extends Field {
 
 // ::- A field class for dropdown fields based on a plain `<select>`
 // tag. Expects an option `options`, which should be an array of
-// `{value: string, label: string}` objects, or a function taking a
-// `ProseMirror` instance and returning such an array.
-export class SelectField extends Field {
+// `{value: string, label: string}` objects.
+export class SelectField extends Field<string> {
   render() {
     const select = document.createElement('select');
-    this.options.options.forEach((o: { value: string; label: string }) => {
+    select.setAttribute('aria-label', this.options.label);
+    (this.options.options || []).forEach((o) => {
       const opt = select.appendChild(document.createElement('option'));
       opt.value = o.value;
       opt.selected = o.value == this.options.value;
       opt.label = o.label;
+      opt.textContent = o.label;
     });
     return select;
   }
 }
+
+// ::- A field class for numbers. Reads as a number, or `null` when
+// left empty. Honors the `min`, `max` and `step` options.
+export class NumberField extends Field<number | null> {
+  render() {
+    const { label, value, min, max, step } = this.options;
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.placeholder = label;
+    input.setAttribute('aria-label', label);
+    if (min != null) input.min = String(min);
+    if (max != null) input.max = String(max);
+    if (step != null) input.step = String(step);
+    input.value = value == null ? '' : String(value);
+    return input;
+  }
+
+  read(dom: HTMLElement) {
+    const { value } = dom as HTMLInputElement;
+    return value.trim() === '' ? null : Number(value);
+  }
+
+  validateType(value: number) {
+    const { min, max } = this.options;
+    if (Number.isNaN(value)) return 'Not a number';
+    if (min != null && value < min) return `Must be at least ${min}`;
+    if (max != null && value > max) return `Must be at most ${max}`;
+    return undefined;
+  }
+}
+
+// ::- A field class for a single checkbox. Reads as a boolean; a
+// `required` checkbox must be checked.
+export class CheckboxField extends Field<boolean> {
+  render() {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = !!this.options.value;
+    return labelled(this.options.label, input);
+  }
+
+  read(dom: HTMLElement) {
+    return (dom.querySelector('input') as HTMLInputElement).checked;
+  }
+
+  isEmpty(value: boolean) {
+    return !value;
+  }
+}
+
+// ::- A field class for colors, using the native color picker. Reads
+// as a `#rrggbb` string.
+export class ColorField extends Field<string> {
+  render() {
+    const input = document.createElement('input');
+    input.type = 'color';
+    input.value = this.options.value || '#000000';
+    return labelled(this.options.label, input);
+  }
+
+  read(dom: HTMLElement) {
+    return (dom.querySelector('input') as HTMLInputElement).value;
+  }
+
+  validateType(value: string) {
+    return /^#[0-9a-f]{6}$/i.test(value) ? undefined : 'Not a color';
+  }
+}
+
+// ::- A field class for multi-line text. Enter inserts a newline,
+// Mod-Enter submits the prompt.
+export class TextAreaField extends Field<string> {
+  render() {
+    const textarea = document.createElement('textarea');
+    textarea.placeholder = this.options.label;
+    textarea.setAttribute('aria-label', this.options.label);
+    textarea.rows = this.options.rows || 3;
+    textarea.value = this.options.value || '';
+    return textarea;
+  }
+}
+
+// ::- A field class for file inputs. Reads as an array of `File`
+// objects. Takes the `accept` and `multiple` options.
+export class FileField extends Field<File[]> {
+  render() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    if (this.options.accept) input.accept = this.options.accept;
+    input.multiple = !!this.options.multiple;
+    return labelled(this.options.label, input);
+  }
+
+  read(dom: HTMLElement): File[] {
+    const { files } = dom.querySelector('input') as HTMLInputElement;
+    return files ? Array.from(files) : [];
+  }
+
+  isEmpty(value: File[]) {
+    return !value.length;
+  }
+}
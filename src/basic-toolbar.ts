@@ -12,13 +12,27 @@ import {
   undoItem,
   wrapItem,
 } from 'prosemirror-menu';
-import { Attrs, DOMParser, NodeType, Schema } from 'prosemirror-model';
+import { DOMParser, Node, NodeType, Schema } from 'prosemirror-model';
 import { wrapInList } from 'prosemirror-schema-list';
 import { NodeSelection } from 'prosemirror-state';
 import { EditorState } from 'prosemirror-state';
+import {
+  addColumnAfter,
+  addColumnBefore,
+  addRowAfter,
+  addRowBefore,
+  deleteColumn,
+  deleteRow,
+  deleteTable,
+  mergeCells,
+  splitCell,
+  toggleHeaderRow,
+} from 'prosemirror-tables';
+import { EditorView } from 'prosemirror-view';
 
-import { openPrompt, TextField } from './basic-prompt';
-import { getRandomId } from './utils';
+import { prompt, TextField } from './basic-prompt';
+import { editLink, removeLink, setLink } from './plugin-link';
+import { createElement } from './utils';
 
 // Helpers to create specific types of items
 
@@ -38,15 +52,15 @@ function insertImageItem(nodeType: NodeType) {
     enable(state) {
       return canInsert(state, nodeType);
     },
-    run(state, _, view) {
-      let { from, to } = state.selection,
-        attrs = null;
+    async run(state, _, view) {
+      const { from, to } = state.selection;
+      let attrs = null;
       if (
         state.selection instanceof NodeSelection &&
         state.selection.node.type == nodeType
       )
         attrs = state.selection.node.attrs;
-      openPrompt({
+      const values = await prompt({
         title: 'Insert image',
         fields: {
           src: new TextField({
@@ -60,12 +74,105 @@ function insertImageItem(nodeType: NodeType) {
             value: attrs ? attrs.alt : state.doc.textBetween(from, to, ' '),
           }),
         },
-        callback(attrs: Attrs | null | undefined) {
-          view.dispatch(
-            view.state.tr.replaceSelectionWith(nodeType.createAndFill(attrs) as any),
-          );
-          view.focus();
-        },
+      });
+      if (!values) return;
+      view.dispatch(
+        view.state.tr.replaceSelectionWith(nodeType.createAndFill(values) as Node),
+      );
+      view.focus();
+    },
+  });
+}
+
+// 表格: 第一行为表头
+function createTable(schema: Schema, rows: number, cols: number) {
+  const { table, table_row, table_header, table_cell } = schema.nodes;
+  const row = (cellType: NodeType) => {
+    const cells: Node[] = [];
+    for (let i = 0; i < cols; i++) cells.push(cellType.createAndFill() as Node);
+    return table_row.create(null, cells);
+  };
+  const tableRows = [row(table_header)];
+  for (let i = 1; i < rows; i++) tableRows.push(row(table_cell));
+  return table.create(null, tableRows);
+}
+
+// 表格尺寸选择面板, 鼠标划过选择行列数
+const TABLE_PICKER_ROWS = 8;
+const TABLE_PICKER_COLS = 10;
+function openTableSizePicker(
+  anchor: Element | null,
+  callback: (rows: number, cols: number) => void,
+) {
+  const prefix = 'ProseMirror-table-picker';
+  const wrapper = document.body.appendChild(createElement('div', prefix));
+  const grid = wrapper.appendChild(createElement('div', `${prefix}-grid`));
+  const label = wrapper.appendChild(createElement('div', `${prefix}-label`, '1 x 1'));
+  grid.style.gridTemplateColumns = `repeat(${TABLE_PICKER_COLS}, 1fr)`;
+
+  const close = () => {
+    clearTimeout(listenTimer);
+    window.removeEventListener('mousedown', mouseOutside);
+    window.removeEventListener('keydown', keydown);
+    wrapper.remove();
+  };
+  const mouseOutside = (e: MouseEvent) => {
+    if (!wrapper.contains(e.target as globalThis.Node)) close();
+  };
+  const keydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') close();
+  };
+  // 打开菜单的那次点击不算在外部, 延迟注册; 提前关闭时取消
+  const listenTimer = setTimeout(
+    () => window.addEventListener('mousedown', mouseOutside),
+    50,
+  );
+  window.addEventListener('keydown', keydown);
+
+  const cells: HTMLElement[] = [];
+  const highlight = (rows: number, cols: number) => {
+    cells.forEach((cell) => {
+      const { row, col } = cell.dataset;
+      cell.classList.toggle(
+        `${prefix}-active`,
+        +(row as string) <= rows && +(col as string) <= cols,
+      );
+    });
+    label.textContent = `${rows} x ${cols}`;
+  };
+  for (let row = 1; row <= TABLE_PICKER_ROWS; row++)
+    for (let col = 1; col <= TABLE_PICKER_COLS; col++) {
+      const cell = grid.appendChild(createElement('div', `${prefix}-cell`));
+      cell.dataset.row = String(row);
+      cell.dataset.col = String(col);
+      cell.addEventListener('mouseenter', () => highlight(row, col));
+      cell.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        close();
+        callback(row, col);
+      });
+      cells.push(cell);
+    }
+  highlight(1, 1);
+
+  const box = anchor ? anchor.getBoundingClientRect() : null;
+  wrapper.style.top = (box ? box.bottom + 4 : window.innerHeight / 3) + 'px';
+  wrapper.style.left = (box ? box.left : window.innerWidth / 3) + 'px';
+}
+
+function insertTableItem(schema: Schema) {
+  const { table } = schema.nodes;
+  return new MenuItem({
+    title: 'Insert table',
+    label: 'Table',
+    enable(state) {
+      return canInsert(state, table);
+    },
+    run(state, _, view: EditorView, event: Event) {
+      openTableSizePicker(event && (event.target as Element), (rows, cols) => {
+        const tr = view.state.tr.replaceSelectionWith(createTable(schema, rows, cols));
+        view.dispatch(tr.scrollIntoView());
+        view.focus();
       });
     },
   });
@@ -112,27 +219,12 @@ function linkItem(markType: any) {
       return markActive(state, markType);
     },
     enable(state) {
-      return !state.selection.empty;
+      return setLink({ href: '' })(state);
     },
     run(state, dispatch, view) {
-      if (markActive(state, markType)) {
-        toggleMark(markType)(state, dispatch);
-        return true;
-      }
-      openPrompt({
-        title: 'Create a link',
-        fields: {
-          href: new TextField({
-            label: 'Link target',
-            required: true,
-          }),
-          title: new TextField({ label: 'Title' }),
-        },
-        callback(attrs: any) {
-          toggleMark(markType, attrs)(view.state, view.dispatch);
-          view.focus();
-        },
-      });
+      // 取消整段链接, 而不只是选中的部分
+      if (markActive(state, markType) && removeLink(state, dispatch)) return;
+      editLink(view);
     },
   });
 }
@@ -153,6 +245,7 @@ export function buildMenuItems(schema: Schema) {
     code_block,
     heading,
     horizontal_rule,
+    table,
   } = nodes;
   const r: {
     toggleStrong: MenuItem;
@@ -172,11 +265,24 @@ export function buildMenuItems(schema: Schema) {
     makeHead4: MenuItem;
     makeHead5: MenuItem;
     makeHead6: MenuItem;
+    insertTable: MenuItem;
+    addRowBefore: MenuItem;
+    addRowAfter: MenuItem;
+    deleteRow: MenuItem;
+    addColumnBefore: MenuItem;
+    addColumnAfter: MenuItem;
+    deleteColumn: MenuItem;
+    mergeCells: MenuItem;
+    splitCell: MenuItem;
+    toggleHeaderRow: MenuItem;
+    deleteTable: MenuItem;
     insertMenu: Dropdown;
     typeMenu: Dropdown;
+    tableMenu: Dropdown;
     inlineMenu: any[];
     blockMenu: any[];
     fullMenu: any[];
+    bubbleMenu: any[];
   } = {
     toggleStrong: markItem(strong, { title: '加粗', icon: icons.strong }),
     toggleEm: markItem(em, { title: '斜体', icon: icons.em }),
@@ -216,46 +322,77 @@ export function buildMenuItems(schema: Schema) {
     makeHead1: blockTypeItem(heading, {
       title: 'Change to heading 1',
       label: 'Level 1',
-      attrs: { level: 1, id: getRandomId() },
+      attrs: { level: 1 },
     }),
     makeHead2: blockTypeItem(heading, {
       title: 'Change to heading 2',
       label: 'Level 2',
-      attrs: { level: 2, id: getRandomId() },
+      attrs: { level: 2 },
     }),
     makeHead3: blockTypeItem(heading, {
       title: 'Change to heading 3',
       label: 'Level 3',
-      attrs: { level: 3, id: getRandomId() },
+      attrs: { level: 3 },
     }),
     makeHead4: blockTypeItem(heading, {
       title: 'Change to heading 4',
       label: 'Level 4',
-      attrs: { level: 4, id: getRandomId() },
+      attrs: { level: 4 },
     }),
     makeHead5: blockTypeItem(heading, {
       title: 'Change to heading 5',
       label: 'Level 5',
-      attrs: { level: 5, id: getRandomId() },
+      attrs: { level: 5 },
     }),
     makeHead6: blockTypeItem(heading, {
       title: 'Change to heading 6',
       label: 'Level 6',
-      attrs: { level: 6, id: getRandomId() },
+      attrs: { level: 6 },
+    }),
+    insertTable: table && insertTableItem(schema),
+    addRowBefore: cmdItem(addRowBefore, {
+      title: 'Insert row before',
+      label: 'Row before',
+    }),
+    addRowAfter: cmdItem(addRowAfter, { title: 'Insert row after', label: 'Row after' }),
+    deleteRow: cmdItem(deleteRow, { title: 'Delete row', label: 'Delete row' }),
+    addColumnBefore: cmdItem(addColumnBefore, {
+      title: 'Insert column before',
+      label: 'Column before',
+    }),
+    addColumnAfter: cmdItem(addColumnAfter, {
+      title: 'Insert column after',
+      label: 'Column after',
+    }),
+    deleteColumn: cmdItem(deleteColumn, {
+      title: 'Delete column',
+      label: 'Delete column',
+    }),
+    mergeCells: cmdItem(mergeCells, { title: 'Merge cells', label: 'Merge cells' }),
+    splitCell: cmdItem(splitCell, { title: 'Split cell', label: 'Split cell' }),
+    toggleHeaderRow: cmdItem(toggleHeaderRow, {
+      title: 'Toggle header row',
+      label: 'Header row',
     }),
+    deleteTable: cmdItem(deleteTable, { title: 'Delete table', label: 'Delete table' }),
     // @ts-ignore
     insertMenu: new Dropdown(),
     // @ts-ignore
     typeMenu: new Dropdown(),
+    tableMenu: new Dropdown([]),
     inlineMenu: [],
     blockMenu: [],
     fullMenu: [],
+    bubbleMenu: [],
   };
   r.inlineMenu = [cut([r.toggleStrong, r.toggleEm, r.toggleCode, r.toggleLink])];
 
-  r.insertMenu = new Dropdown(cut([r.insertImage, r.insertHorizontalRule]), {
-    label: 'Insert',
-  });
+  r.insertMenu = new Dropdown(
+    cut([r.insertImage, r.insertHorizontalRule, r.insertTable]),
+    {
+      label: 'Insert',
+    },
+  );
 
   r.typeMenu = new Dropdown(
     cut([
@@ -277,6 +414,22 @@ export function buildMenuItems(schema: Schema) {
     { label: 'Type...' },
   );
 
+  r.tableMenu = new Dropdown(
+    cut([
+      r.addRowBefore,
+      r.addRowAfter,
+      r.deleteRow,
+      r.addColumnBefore,
+      r.addColumnAfter,
+      r.deleteColumn,
+      r.mergeCells,
+      r.splitCell,
+      r.toggleHeaderRow,
+      r.deleteTable,
+    ]),
+    { label: 'Table' },
+  );
+
   r.blockMenu = [
     cut([
       r.wrapBulletList,
@@ -289,10 +442,20 @@ export function buildMenuItems(schema: Schema) {
   ];
 
   r.fullMenu = r.inlineMenu.concat(
-    [[r.insertMenu, r.typeMenu]],
+    [cut([r.insertMenu, r.typeMenu, table && r.tableMenu])],
     [[undoItem, redoItem]],
     r.blockMenu,
   );
 
+  // 选区浮动菜单: 行内格式 + 标题
+  r.bubbleMenu = r.inlineMenu.concat([
+    cut([
+      r.makeHead1 &&
+        new Dropdown(cut([r.makeParagraph, r.makeHead1, r.makeHead2, r.makeHead3]), {
+          label: 'Heading',
+        }),
+    ]),
+  ]);
+
   return r;
 }
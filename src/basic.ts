@@ -17,13 +17,13 @@ import { redo, undo } from 'prosemirror-history';
 import {
   ellipsis,
   emDash,
+  InputRule,
   inputRules,
   smartQuotes,
   textblockTypeInputRule,
   wrappingInputRule,
 } from 'prosemirror-inputrules';
 import { undoInputRule } from 'prosemirror-inputrules';
-import { keymap } from 'prosemirror-keymap';
 import { menuBar } from 'prosemirror-menu';
 import { DOMParser, NodeType, Schema } from 'prosemirror-model';
 import {
@@ -33,12 +33,28 @@ import {
   wrapInList,
 } from 'prosemirror-schema-list';
 import { Plugin } from 'prosemirror-state';
+import { columnResizing, goToNextCell, tableEditing } from 'prosemirror-tables';
+import { canJoin, findWrapping } from 'prosemirror-transform';
 
+import {
+  type ActiveKeyBinding,
+  type KeyBinding,
+  type KeyDescription,
+  type KeymapConfig,
+  type KeySpec,
+  describedKeymap,
+  describedKeys,
+  keyBindingsToKeymap,
+  resolveKeyBindings,
+} from './basic-keymap';
 // @ts-ignore
 import { buildMenuItems } from './basic-toolbar';
-import { getRandomId } from './utils';
+import { indentCode, outdentCode, selectCodeBlock } from './plugin-code-block';
+import { openSearch } from './plugin-search';
+import { shortcutsPlugin, toggleShortcuts } from './plugin-shortcuts';
+import { getSticker } from './stickers';
 
-export { buildInputRules, buildKeymap, buildMenuItems };
+export { buildInputRules, buildKeyBindings, buildKeymap, buildMenuItems };
 // 绑定输入特定键
 const buildInputRules = (schema: Schema) => {
   const blockQuoteRule = (nodeType: NodeType) => {
@@ -58,108 +74,291 @@ const buildInputRules = (schema: Schema) => {
     return wrappingInputRule(/^\s*([-+*])\s$/, nodeType);
   };
 
+  // `[ ] ` / `[x] ` 开头转换为任务列表
+  const taskListRule = (nodeType: NodeType, itemType: NodeType) => {
+    return new InputRule(/^\s*\[([ xX]?)\]\s$/, (state, match, start, end) => {
+      const tr = state.tr.delete(start, end);
+      const range = tr.doc.resolve(start).blockRange();
+      const wrapping = range && findWrapping(range, nodeType);
+      if (!range || !wrapping) return null;
+
+      const checked = match[1].toLowerCase() === 'x';
+      tr.wrap(
+        range,
+        wrapping.map((wrapper) =>
+          wrapper.type === itemType ? { type: itemType, attrs: { checked } } : wrapper,
+        ),
+      );
+      const before = tr.doc.resolve(start - 1).nodeBefore;
+      if (before && before.type === nodeType && canJoin(tr.doc, start - 1))
+        tr.join(start - 1);
+      return tr;
+    });
+  };
+
+  // `:name:` 转换为贴纸, 只处理已注册的贴纸
+  const stickerRule = (nodeType: NodeType) => {
+    return new InputRule(/(?:^|[^\w:]):([\w-]+):$/, (state, match, start, end) => {
+      if (!getSticker(match[1])) return null;
+      // 最后一个冒号是正在输入的字符, 不在文档中
+      const from = end - match[1].length - 1;
+      return state.tr.replaceWith(from, end, nodeType.create({ type: match[1] }));
+    });
+  };
+
+  // ``` 或 ```ts 后输入空格转换为代码块, 后者带上语言
   const codeBlockRule = (nodeType: NodeType) => {
-    return textblockTypeInputRule(/^```$/, nodeType);
+    return textblockTypeInputRule(/^```([\w+#.-]*)\s$/, nodeType, (match) => ({
+      language: match[1] || null,
+    }));
   };
 
   const headingRule = (nodeType: NodeType, maxLevel: number) => {
     return textblockTypeInputRule(
       new RegExp('^(#{1,' + maxLevel + '})\\s$'),
       nodeType,
-      (match) => ({ level: match[1].length, id: getRandomId() }),
+      (match) => ({ level: match[1].length }),
     );
   };
   const rules = smartQuotes.concat(ellipsis, emDash);
-  const { blockquote, ordered_list, bullet_list, code_block, heading } = schema.nodes;
+  const {
+    blockquote,
+    ordered_list,
+    bullet_list,
+    task_list,
+    task_item,
+    code_block,
+    heading,
+    dino,
+  } = schema.nodes;
 
   rules.push(blockQuoteRule(blockquote));
   rules.push(orderedListRule(ordered_list));
   rules.push(bulletListRule(bullet_list));
+  if (task_list) rules.push(taskListRule(task_list, task_item));
+  if (dino) rules.push(stickerRule(dino));
   rules.push(codeBlockRule(code_block));
   rules.push(headingRule(heading, 6));
 
   return inputRules({ rules });
 };
 // 绑定快捷键
-const mac = typeof navigator != 'undefined' ? /Mac/.test(navigator.platform) : false;
-const buildKeymap = (schema: Schema, mapKeys: any) => {
-  let keys: any = {},
-    type;
-  function bind(key: string, cmd: any) {
-    if (mapKeys) {
-      const mapped = mapKeys[key];
-      if (mapped === false) return;
-      if (mapped) key = mapped;
-    }
-    keys[key] = cmd;
-  }
+export type KeymapCommandName =
+  | 'undo'
+  | 'redo'
+  | 'undoInputRule'
+  | 'joinUp'
+  | 'joinDown'
+  | 'lift'
+  | 'selectParentNode'
+  | 'openSearch'
+  | 'showShortcuts'
+  | 'toggleStrong'
+  | 'toggleEm'
+  | 'toggleCode'
+  | 'wrapInBulletList'
+  | 'wrapInOrderedList'
+  | 'wrapInBlockquote'
+  | 'insertHardBreak'
+  | 'splitListItem'
+  | 'liftListItem'
+  | 'sinkListItem'
+  | 'setParagraph'
+  | 'setCodeBlock'
+  | 'selectCodeBlock'
+  | `setHeading${1 | 2 | 3 | 4 | 5 | 6}`
+  | 'indentOrNextCell'
+  | 'outdentOrPrevCell'
+  | 'insertHorizontalRule';
 
-  bind('Mod-z', undo);
-  bind('Shift-Mod-z', redo);
-  bind('Backspace', undoInputRule);
-  if (!mac) bind('Mod-y', redo);
+// 所有可配置的命令, 按 schema 中存在的节点和 mark 生成
+const buildKeyBindings = (schema: Schema) => {
+  const bindings: KeyBinding<KeymapCommandName>[] = [];
+  const bind = (
+    name: KeymapCommandName,
+    description: string,
+    keys: string[] | KeySpec,
+    command: KeyBinding['command'],
+  ) => {
+    bindings.push({
+      name,
+      description,
+      command,
+      ...(Array.isArray(keys) ? { keys } : keys),
+    });
+  };
+  const { marks, nodes } = schema;
 
-  bind('Alt-ArrowUp', joinUp);
-  bind('Alt-ArrowDown', joinDown);
-  bind('Mod-BracketLeft', lift);
-  bind('Escape', selectParentNode);
+  bind('undo', '撤销', ['Mod-z'], undo);
+  bind('redo', '重做', { keys: ['Shift-Mod-z'], other: ['Mod-y'] }, redo);
+  bind('undoInputRule', '撤销自动格式', ['Backspace'], undoInputRule);
 
-  if ((type = schema.marks.strong)) {
-    bind('Mod-b', toggleMark(type));
-    bind('Mod-B', toggleMark(type));
-  }
-  if ((type = schema.marks.em)) {
-    bind('Mod-i', toggleMark(type));
-    bind('Mod-I', toggleMark(type));
+  bind('joinUp', '与上一块合并', ['Alt-ArrowUp'], joinUp);
+  bind('joinDown', '与下一块合并', ['Alt-ArrowDown'], joinDown);
+  // 原来的 Mod-BracketLeft 与 Mod-[ 是同一个键, 实际从未生效, 默认不绑定
+  bind('lift', '移出所在的块', [], lift);
+  bind('selectParentNode', '选中父节点', ['Escape'], selectParentNode);
+  bind('openSearch', '查找替换', ['Mod-f'], openSearch);
+  bind('showShortcuts', '快捷键列表', ['Mod-/'], toggleShortcuts);
+
+  if (marks.strong)
+    bind('toggleStrong', '粗体', ['Mod-b', 'Mod-B'], toggleMark(marks.strong));
+  if (marks.em) bind('toggleEm', '斜体', ['Mod-i', 'Mod-I'], toggleMark(marks.em));
+  if (marks.code) bind('toggleCode', '行内代码', ['Mod-`'], toggleMark(marks.code));
+
+  if (nodes.bullet_list)
+    bind('wrapInBulletList', '无序列表', ['Shift-Ctrl-8'], wrapInList(nodes.bullet_list));
+  if (nodes.ordered_list)
+    bind(
+      'wrapInOrderedList',
+      '有序列表',
+      ['Shift-Ctrl-9'],
+      wrapInList(nodes.ordered_list),
+    );
+  if (nodes.blockquote)
+    bind('wrapInBlockquote', '引用', ['Ctrl->'], wrapIn(nodes.blockquote));
+  if (nodes.hard_break) {
+    const br = nodes.hard_break;
+    const cmd = chainCommands(exitCode, (state, dispatch) => {
+      if (dispatch) dispatch(state.tr.replaceSelectionWith(br.create()).scrollIntoView());
+      return true;
+    });
+    bind(
+      'insertHardBreak',
+      '换行',
+      { keys: ['Mod-Enter', 'Shift-Enter'], mac: ['Ctrl-Enter'] },
+      cmd,
+    );
   }
-  if ((type = schema.marks.code)) bind('Mod-`', toggleMark(type));
-
-  if ((type = schema.nodes.bullet_list)) bind('Shift-Ctrl-8', wrapInList(type));
-  if ((type = schema.nodes.ordered_list)) bind('Shift-Ctrl-9', wrapInList(type));
-  if ((type = schema.nodes.blockquote)) bind('Ctrl->', wrapIn(type));
-  if ((type = schema.nodes.hard_break)) {
-    const br = type,
-      cmd = chainCommands(exitCode, (state, dispatch) => {
-        if (dispatch)
-          dispatch(state.tr.replaceSelectionWith(br.create()).scrollIntoView());
-        return true;
-      });
-    bind('Mod-Enter', cmd);
-    bind('Shift-Enter', cmd);
-    if (mac) bind('Ctrl-Enter', cmd);
+  // 普通列表项和任务项共用同一组快捷键
+  const itemTypes = [nodes.list_item, nodes.task_item].filter((_) => _);
+  if (itemTypes.length) {
+    const itemAttrs = (itemType: NodeType) =>
+      itemType === nodes.task_item ? { checked: false } : undefined;
+    bind(
+      'splitListItem',
+      '拆分列表项',
+      ['Enter'],
+      chainCommands(...itemTypes.map((_) => splitListItem(_, itemAttrs(_)))),
+    );
+    bind(
+      'liftListItem',
+      '减少列表缩进',
+      ['Mod-['],
+      chainCommands(...itemTypes.map((_) => liftListItem(_))),
+    );
+    bind(
+      'sinkListItem',
+      '增加列表缩进',
+      ['Mod-]'],
+      chainCommands(...itemTypes.map((_) => sinkListItem(_))),
+    );
   }
-  if ((type = schema.nodes.list_item)) {
-    bind('Enter', splitListItem(type));
-    bind('Mod-[', liftListItem(type));
-    bind('Mod-]', sinkListItem(type));
+  if (nodes.paragraph)
+    bind('setParagraph', '正文', ['Shift-Ctrl-0'], setBlockType(nodes.paragraph));
+  if (nodes.code_block) {
+    bind('setCodeBlock', '代码块', ['Shift-Ctrl-\\'], setBlockType(nodes.code_block));
+    bind('selectCodeBlock', '选中代码块内容', ['Mod-a'], selectCodeBlock);
   }
-  if ((type = schema.nodes.paragraph)) bind('Shift-Ctrl-0', setBlockType(type));
-  if ((type = schema.nodes.code_block)) bind('Shift-Ctrl-\\', setBlockType(type));
-  if ((type = schema.nodes.heading))
+  if (nodes.heading)
     for (let i = 1; i <= 6; i++)
-      bind('Shift-Ctrl-' + i, setBlockType(type, { level: i, id: getRandomId() }));
-  if ((type = schema.nodes.horizontal_rule)) {
-    const hr = type;
-    bind('Mod-_', (state: any, dispatch: any) => {
-      dispatch(state.tr.replaceSelectionWith(hr.create()).scrollIntoView());
+      bind(
+        `setHeading${i}` as KeymapCommandName,
+        `${i} 级标题`,
+        ['Shift-Ctrl-' + i],
+        setBlockType(nodes.heading, { level: i }),
+      );
+  // 代码块中缩进, 表格中切换单元格
+  bind(
+    'indentOrNextCell',
+    '代码缩进 / 下一个单元格',
+    ['Tab'],
+    chainCommands(indentCode, goToNextCell(1)),
+  );
+  bind(
+    'outdentOrPrevCell',
+    '取消代码缩进 / 上一个单元格',
+    ['Shift-Tab'],
+    chainCommands(outdentCode, goToNextCell(-1)),
+  );
+  if (nodes.horizontal_rule) {
+    const hr = nodes.horizontal_rule;
+    bind('insertHorizontalRule', '分隔线', ['Mod-_'], (state, dispatch) => {
+      if (dispatch) dispatch(state.tr.replaceSelectionWith(hr.create()).scrollIntoView());
       return true;
     });
   }
 
-  return keys;
+  return bindings;
 };
 
+// baseKeymap 的按键说明, 只保留当前平台存在的按键
+const baseKeyDescriptions = (): KeyDescription[] =>
+  [
+    { description: '拆分段落', keys: ['Enter'] },
+    {
+      description: '向前删除',
+      keys: ['Backspace', 'Mod-Backspace', 'Shift-Backspace', 'Ctrl-h', 'Alt-Backspace'],
+    },
+    {
+      description: '向后删除',
+      keys: [
+        'Delete',
+        'Mod-Delete',
+        'Ctrl-d',
+        'Ctrl-Alt-Backspace',
+        'Alt-Delete',
+        'Alt-d',
+      ],
+    },
+    { description: '全选', keys: ['Mod-a'] },
+    { description: '移到段落开头', keys: ['Ctrl-a'] },
+    { description: '移到段落末尾', keys: ['Ctrl-e'] },
+  ]
+    .map(({ description, keys }) => ({
+      description,
+      keys: keys.filter((key) => key in baseKeymap),
+    }))
+    .filter(({ keys }) => keys.length);
+
+// 代码块中的按键说明, 取自实际生效的绑定, 随 mapKeys 修改或取消
+const codeKeyDescriptions = (bindings: ActiveKeyBinding[]): KeyDescription[] => {
+  const keysOf = (name: KeymapCommandName) =>
+    bindings.find((binding) => binding.name === name)?.keys || [];
+  return [
+    // baseKeymap 的 Enter 在代码块中换行
+    { description: '换行', keys: ['Enter'] },
+    { description: '缩进', keys: keysOf('indentOrNextCell') },
+    { description: '取消缩进', keys: keysOf('outdentOrPrevCell') },
+    { description: '选中代码块内容', keys: keysOf('selectCodeBlock') },
+    // insertHardBreak 在代码块中先尝试 exitCode
+    { description: '跳出代码块', keys: keysOf('insertHardBreak') },
+  ].filter(({ keys }) => keys.length);
+};
+
+const buildKeymap = (schema: Schema, mapKeys?: KeymapConfig<KeymapCommandName>) =>
+  keyBindingsToKeymap(resolveKeyBindings(buildKeyBindings(schema), mapKeys));
+
 export function exampleSetup(options: {
   schema: Schema;
   menuContent?: any;
-  mapKeys?: any;
+  // 按命令名修改快捷键, 如 { redo: ['Mod-Shift-z'], toggleCode: false }
+  mapKeys?: KeymapConfig<KeymapCommandName>;
 }) {
+  const bindings = resolveKeyBindings(buildKeyBindings(options.schema), options.mapKeys);
   return [
+    // 快捷键列表打开时优先处理 Escape
+    shortcutsPlugin(),
     buildInputRules(options.schema),
-    keymap(buildKeymap(options.schema, options.mapKeys)),
-    keymap(baseKeymap),
+    describedKeymap('编辑', bindings, keyBindingsToKeymap(bindings)),
+    describedKeymap('基础', baseKeyDescriptions(), baseKeymap),
+    ...(options.schema.nodes.code_block
+      ? [describedKeys('代码块', codeKeyDescriptions(bindings))]
+      : []),
     dropCursor(),
     gapCursor(),
+    // 表格: 列宽拖拽 / 单元格选区 / 粘贴表格
+    ...(options.schema.nodes.table ? [columnResizing(), tableEditing()] : []),
     menuBar({
       floating: true, // 悬浮
       content: options.menuContent || buildMenuItems(options.schema).fullMenu,
@@ -0,0 +1,205 @@
+// 代码块语言: code_block 的 language 属性为语言名或别名
+// 高亮规则按顺序尝试, 先匹配的优先
+export interface LanguageRule {
+  // 对应 yl-code-${token} 样式
+  token: string;
+  pattern: RegExp;
+}
+
+export interface Language {
+  name: string;
+  label: string;
+  aliases?: string[];
+  rules: LanguageRule[];
+}
+
+export interface CodeToken {
+  from: number;
+  to: number;
+  token: string;
+}
+
+export const LANGUAGE_NAME = /^[\w+#.-]+$/;
+
+const registry = new Map<string, Language>();
+const aliases = new Map<string, string>();
+
+// 规则统一转为 sticky, 从指定位置开始匹配
+const sticky = (pattern: RegExp) =>
+  new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '') + 'y');
+
+export const registerLanguage = (language: Language) => {
+  const names = [language.name, ...(language.aliases || [])];
+  names.forEach((name) => {
+    if (!LANGUAGE_NAME.test(name))
+      throw new RangeError(`Invalid language name "${name}"`);
+  });
+  registry.set(language.name, {
+    ...language,
+    rules: language.rules.map(({ token, pattern }) => ({
+      token,
+      pattern: sticky(pattern),
+    })),
+  });
+  names.forEach((name) => aliases.set(name.toLowerCase(), language.name));
+};
+
+export const getLanguage = (name: string | null | undefined) => {
+  const key = name && aliases.get(name.toLowerCase());
+  return (key && registry.get(key)) || null;
+};
+
+export const listLanguages = () => Array.from(registry.values());
+
+const WORD = /[\w$]+/y;
+
+// 切分为高亮片段, 未匹配的字符不产生片段
+export const tokenize = (code: string, language: Language | null) => {
+  const tokens: CodeToken[] = [];
+  if (!language) return tokens;
+  let pos = 0;
+  while (pos < code.length) {
+    let matched = false;
+    for (const { token, pattern } of language.rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (!match || !match[0].length) continue;
+      const last = tokens[tokens.length - 1];
+      if (last && last.token === token && last.to === pos) last.to += match[0].length;
+      else tokens.push({ from: pos, to: pos + match[0].length, token });
+      pos += match[0].length;
+      matched = true;
+      break;
+    }
+    if (matched) continue;
+    // 标识符整体跳过, 避免关键字匹配到单词中间
+    WORD.lastIndex = pos;
+    const word = WORD.exec(code);
+    pos += word ? word[0].length : 1;
+  }
+  return tokens;
+};
+
+// ======================================================== //
+//                        内置语言                          //
+// ======================================================== //
+const keywords = (words: string) => new RegExp(`\\b(?:${words.split(' ').join('|')})\\b`);
+
+const NUMBER = {
+  token: 'number',
+  pattern: /\b(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/,
+};
+const DOUBLE_STRING = { token: 'string', pattern: /"(?:[^"\\\n]|\\.)*"?/ };
+const SINGLE_STRING = { token: 'string', pattern: /'(?:[^'\\\n]|\\.)*'?/ };
+
+const jsRules = (extra = '') => [
+  { token: 'comment', pattern: /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/ },
+  DOUBLE_STRING,
+  SINGLE_STRING,
+  { token: 'string', pattern: /`(?:[^`\\]|\\[\s\S])*`?/ },
+  {
+    token: 'keyword',
+    pattern: keywords(
+      'async await break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while with yield' +
+        extra,
+    ),
+  },
+  { token: 'literal', pattern: keywords('true false null undefined NaN Infinity') },
+  NUMBER,
+  { token: 'function', pattern: /[A-Za-z_$][\w$]*(?=\s*\()/ },
+];
+
+registerLanguage({
+  name: 'javascript',
+  label: 'JavaScript',
+  aliases: ['js', 'jsx', 'mjs'],
+  rules: jsRules(),
+});
+
+registerLanguage({
+  name: 'typescript',
+  label: 'TypeScript',
+  aliases: ['ts', 'tsx'],
+  rules: jsRules(
+    ' abstract as declare enum implements interface keyof namespace private protected public readonly type',
+  ),
+});
+
+registerLanguage({
+  name: 'json',
+  label: 'JSON',
+  rules: [
+    { token: 'property', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/ },
+    DOUBLE_STRING,
+    { token: 'literal', pattern: keywords('true false null') },
+    NUMBER,
+  ],
+});
+
+registerLanguage({
+  name: 'css',
+  label: 'CSS',
+  aliases: ['less', 'scss'],
+  rules: [
+    { token: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/ },
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    { token: 'keyword', pattern: /@[\w-]+/ },
+    { token: 'property', pattern: /[\w-]+(?=\s*:(?!:))/ },
+    { token: 'number', pattern: /#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:%|[a-z]+)?/ },
+    { token: 'tag', pattern: /[.#][\w-]+/ },
+  ],
+});
+
+registerLanguage({
+  name: 'html',
+  label: 'HTML',
+  aliases: ['xml', 'svg', 'vue'],
+  rules: [
+    { token: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/ },
+    { token: 'tag', pattern: /<\/?[\w-]+|\/?>/ },
+    { token: 'attr', pattern: /[\w:-]+(?==)/ },
+    DOUBLE_STRING,
+    SINGLE_STRING,
+  ],
+});
+
+registerLanguage({
+  name: 'python',
+  label: 'Python',
+  aliases: ['py'],
+  rules: [
+    { token: 'comment', pattern: /#.*/ },
+    { token: 'string', pattern: /"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)/ },
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    {
+      token: 'keyword',
+      pattern: keywords(
+        'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield',
+      ),
+    },
+    { token: 'literal', pattern: keywords('True False None') },
+    NUMBER,
+    { token: 'function', pattern: /[A-Za-z_]\w*(?=\s*\()/ },
+  ],
+});
+
+registerLanguage({
+  name: 'bash',
+  label: 'Shell',
+  aliases: ['sh', 'shell', 'zsh'],
+  rules: [
+    { token: 'comment', pattern: /#.*/ },
+    DOUBLE_STRING,
+    { token: 'string', pattern: /'[^']*'?/ },
+    { token: 'property', pattern: /\$\{[^}]*\}?|\$\w+/ },
+    {
+      token: 'keyword',
+      pattern: keywords(
+        'if then else elif fi for while until do done case esac in function return export local',
+      ),
+    },
+    NUMBER,
+  ],
+});
@@ -0,0 +1,21 @@
+import { closeHistory } from 'prosemirror-history';
+import { type EditorState, type Transaction } from 'prosemirror-state';
+
+// ======================================================== //
+//                       独立的撤销步骤                       //
+// ======================================================== //
+// closeHistory 只能让修改不合并到之前的输入, 之后 newGroupDelay 内的输入
+// 仍会合并进来. 标记过的事务由插件的 appendTransaction 再关闭一次历史
+const ISOLATE_HISTORY = 'isolateHistory';
+
+// 标记事务, 撤销时单独作为一步
+export const isolateHistory = (tr: Transaction) =>
+  closeHistory(tr).setMeta(ISOLATE_HISTORY, true);
+
+// 直接用作插件的 appendTransaction
+export const closeIsolatedHistory = (
+  transactions: readonly Transaction[],
+  _: EditorState,
+  state: EditorState,
+) =>
+  transactions.some((tr) => tr.getMeta(ISOLATE_HISTORY)) ? closeHistory(state.tr) : null;
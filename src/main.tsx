@@ -1,3 +1,4 @@
+import 'prosemirror-tables/style/tables.css';
 import './index.css';
 
 import React from 'react';
@@ -12,10 +13,8 @@ import {
   Fragment,
   NodeType,
 } from 'prosemirror-model';
-import { DOMOutputSpec, MarkSpec, NodeSpec } from 'prosemirror-model';
-import { addListNodes } from 'prosemirror-schema-list';
-import { EditorState, NodeSelection, Transaction } from 'prosemirror-state';
-import { findWrapping, liftTarget } from 'prosemirror-transform';
+import { EditorState, NodeSelection, Plugin, Transaction } from 'prosemirror-state';
+import { liftTarget } from 'prosemirror-transform';
 import { EditorView } from 'prosemirror-view';
 import {
   lift,
@@ -26,9 +25,30 @@ import {
 } from 'prosemirror-commands';
 
 import { buildMenuItems, exampleSetup } from './basic';
-import { getRandomId } from './utils';
+import { resultSchema } from './schema';
 import { wordCountPlugin } from './plugin-word-count';
 import { TocPlugin } from './plugin-toc';
+import { foldPlugin } from './plugin-fold';
+import { headingIdPlugin } from './plugin-heading-id';
+import { taskListPlugin } from './plugin-task-list';
+import {
+  findHighlightBlock,
+  highlightBlockPlugin,
+  setHighlightBlock,
+} from './plugin-highlight-block';
+import { imageUploadPlugin } from './plugin-image-upload';
+import { imagePlugin } from './plugin-image';
+import { stickerMenuItem, stickerSuggestPlugin } from './plugin-sticker';
+import { linkPlugin } from './plugin-link';
+import { bubbleMenuPlugin } from './plugin-bubble-menu';
+import { buildSlashCommands, slashCommandPlugin } from './plugin-slash-command';
+import { searchPlugin } from './plugin-search';
+import { codeBlockPlugin } from './plugin-code-block';
+import { commentMenuItem, commentsPlugin } from './plugin-comments';
+import { suggestionMenuItems, suggestionPlugin } from './plugin-suggestion';
+import { snapshotMenuItem, snapshotPlugin } from './plugin-snapshot';
+import { IndexedDBSnapshotStore, MemorySnapshotStore } from './snapshot-store';
+import { connectCollab, createCollabUser, webSocketTransport } from './plugin-collab';
 
 declare global {
   interface Window {
@@ -73,375 +93,87 @@ ReactDOM.render(
   document.getElementById('root'),
 );
 // ======================================================== //
-//                         Schema                           //
-// ======================================================== //
-const pDOM: DOMOutputSpec = ['p', 0];
-const blockquoteDOM: DOMOutputSpec = ['blockquote', 0];
-const hrDOM: DOMOutputSpec = ['hr'];
-const preDOM: DOMOutputSpec = ['pre', ['code', 0]];
-const brDOM: DOMOutputSpec = ['br'];
-const emDOM: DOMOutputSpec = ['em', 0];
-const strongDOM: DOMOutputSpec = ['strong', 0];
-const codeDOM: DOMOutputSpec = ['code', 0];
-
-const schema = new Schema({
-  nodes: {
-    doc: {
-      content: '(block | highlightBlock)+',
-    } as NodeSpec,
-    paragraph: {
-      content: 'inline*',
-      group: 'block',
-      parseDOM: [{ tag: 'p' }],
-      toDOM() {
-        return pDOM;
-      },
-    } as NodeSpec,
-    // 引用
-    blockquote: {
-      content: 'block+',
-      group: 'block',
-      defining: true,
-      parseDOM: [{ tag: 'blockquote' }],
-      toDOM() {
-        return blockquoteDOM;
-      },
-    } as NodeSpec,
-    // 分割线
-    horizontal_rule: {
-      group: 'block',
-      parseDOM: [{ tag: 'hr' }],
-      toDOM() {
-        return hrDOM;
-      },
-    } as NodeSpec,
-    // 标题
-    heading: {
-      attrs: { level: { default: 1 }, id: { default: getRandomId() } },
-      content: 'inline*',
-      group: 'block',
-      defining: true,
-      parseDOM: [
-        {
-          tag: 'h1',
-          getAttrs(dom: HTMLElement) {
-            return {
-              level: 1,
-              id: dom.getAttribute('id') || getRandomId(),
-            };
-          },
-        },
-        {
-          tag: 'h2',
-          getAttrs(dom: HTMLElement) {
-            return {
-              level: 2,
-              id: dom.getAttribute('id') || getRandomId(),
-            };
-          },
-        },
-        {
-          tag: 'h3',
-          getAttrs(dom: HTMLElement) {
-            return {
-              level: 3,
-              id: dom.getAttribute('id') || getRandomId(),
-            };
-          },
-        },
-        {
-          tag: 'h4',
-          getAttrs(dom: HTMLElement) {
-            return {
-              level: 4,
-              id: dom.getAttribute('id') || getRandomId(),
-            };
-          },
-        },
-        {
-          tag: 'h5',
-          getAttrs(dom: HTMLElement) {
-            return {
-              level: 5,
-              id: dom.getAttribute('id') || getRandomId(),
-            };
-          },
-        },
-        {
-          tag: 'h6',
-          getAttrs(dom: HTMLElement) {
-            return {
-              level: 6,
-              id: dom.getAttribute('id') || getRandomId(),
-            };
-          },
-        },
-      ],
-      toDOM(node) {
-        return [
-          `h${node.attrs.level}`,
-          {
-            id: node.attrs.id,
-          },
-          0,
-        ];
-      },
-    } as NodeSpec,
-    // 行内代码
-    code_block: {
-      content: 'text*',
-      marks: '',
-      group: 'block',
-      code: true,
-      defining: true,
-      parseDOM: [{ tag: 'pre', preserveWhitespace: 'full' }],
-      toDOM() {
-        return preDOM;
-      },
-    } as NodeSpec,
-    text: {
-      group: 'inline',
-    } as NodeSpec,
-    // 插入图片
-    image: {
-      inline: true,
-      attrs: {
-        src: {},
-        alt: { default: null },
-        title: { default: null },
-      },
-      group: 'inline',
-      draggable: true,
-      parseDOM: [
-        {
-          tag: 'img[src]',
-          getAttrs(dom: HTMLElement) {
-            return {
-              src: dom.getAttribute('src'),
-              title: dom.getAttribute('title'),
-              alt: dom.getAttribute('alt'),
-            };
-          },
-        },
-      ],
-      toDOM(node) {
-        const { src, alt, title } = node.attrs;
-        return ['img', { src, alt, title }];
-      },
-    } as NodeSpec,
-    hard_break: {
-      inline: true,
-      group: 'inline',
-      selectable: false,
-      parseDOM: [{ tag: 'br' }],
-      toDOM() {
-        return brDOM;
-      },
-    } as NodeSpec,
-    // 自定义图片
-    dino: {
-      attrs: { type: { default: 'default-pic' } },
-      inline: true,
-      group: 'inline',
-      draggable: true,
-      parseDOM: [
-        {
-          tag: 'img[dino-type]',
-          getAttrs: (dom: Element) => {
-            const type: string = dom.getAttribute('dino-type') || '';
-            return ['default-pic'].indexOf(type) > -1 ? { type } : false;
-          },
-        },
-      ],
-      toDOM: (node: any) => {
-        return [
-          'img',
-          {
-            'dino-type': node.attrs.type,
-            src: '/src/assets/test.jpg',
-            title: node.attrs.type,
-            class: `custom-schema-assign-pic`,
-          },
-        ];
-      },
-    } as NodeSpec,
-    // 高亮块
-    highlightBlock: {
-      attrs: {
-        backgroundColor: { default: '#fff7e6' },
-        borderColor: { default: '#ffdfa3' },
-      },
-      content: 'block*',
-      // group: 'doc', // 不设置保证是doc的一代子节点
-      defining: true,
-      draggable: true,
-      parseDOM: [
-        'div',
-        {
-          class: 'highlight-block-container',
-        },
-        0,
-      ],
-
-      toDOM: (node: any) => {
-        const { attrs } = node;
-        const { backgroundColor, borderColor } = attrs;
-        return [
-          'div',
-          {
-            class: 'highlight-block-container',
-            'data-background-color': backgroundColor,
-            'data-border-color': borderColor,
-            style: `background-color: ${backgroundColor}; border-color: ${borderColor}`,
-          },
-          [
-            'div',
-            {
-              class: 'highlight-block-emoji',
-            },
-          ],
-          [
-            'div',
-            {
-              class: 'highlight-block-content',
-            },
-            0,
-          ],
-        ];
-      },
-    } as NodeSpec,
-  },
-  marks: {
-    link: {
-      attrs: {
-        href: {},
-        title: { default: null },
-      },
-      inclusive: false,
-      parseDOM: [
-        {
-          tag: 'a[href]',
-          getAttrs(dom: HTMLElement) {
-            return { href: dom.getAttribute('href'), title: dom.getAttribute('title') };
-          },
-        },
-      ],
-      toDOM(node) {
-        const { href, title } = node.attrs;
-        return ['a', { href, title }, 0];
-      },
-    } as MarkSpec,
-    em: {
-      parseDOM: [
-        { tag: 'i' },
-        { tag: 'em' },
-        { style: 'font-style=italic' },
-        { style: 'font-style=normal', clearMark: (m) => m.type.name == 'em' },
-      ],
-      toDOM() {
-        return emDOM;
-      },
-    } as MarkSpec,
-    strong: {
-      parseDOM: [
-        { tag: 'strong' },
-        {
-          tag: 'b',
-          getAttrs: (node: HTMLElement) => node.style.fontWeight != 'normal' && null,
-        },
-        { style: 'font-weight=400', clearMark: (m) => m.type.name == 'strong' },
-        {
-          style: 'font-weight',
-          getAttrs: (value: string) => /^(bold(er)?|[5-9]\d{2,})$/.test(value) && null,
-        },
-      ],
-      toDOM() {
-        return strongDOM;
-      },
-    } as MarkSpec,
-    code: {
-      parseDOM: [{ tag: 'code' }],
-      toDOM() {
-        return codeDOM;
-      },
-    } as MarkSpec,
-  },
-});
-const resultSchema = new Schema({
-  // 监听list
-  nodes: addListNodes(schema.spec.nodes, 'paragraph block*', 'block'),
-  marks: schema.spec.marks,
-});
-// ======================================================== //
 //                    注册Schema逻辑                        //
 // ======================================================== //
 
-// 插入指定图片
-const insertAssignImg = (type: string) => {
-  return (state: any, dispatch: any) => {
-    const { $from } = state.selection;
-    const index = $from.index();
-
-    if (!$from.parent.canReplaceWith(index, index, resultSchema.nodes.dino)) return false;
-
-    if (dispatch)
-      dispatch(state.tr.replaceSelectionWith(resultSchema.nodes.dino.create({ type })));
-
-    return true;
-  };
-};
-
-// 插入高亮块
-const setHighlightBlock = (attrs?: any) => {
-  return (state: any, dispatch: any) => {
-    const { selection } = state;
-    const { $from, $to } = selection;
-
-    const range = $from.blockRange($to);
-    if (!range) return false;
-
-    const wrapping = findWrapping(range, resultSchema.nodes.highlightBlock, attrs);
-    if (!wrapping) return false;
-
-    if (dispatch) dispatch(state.tr.wrap(range, wrapping).scrollIntoView());
-    return true;
-  };
-};
-
 // 工具栏: 触发逻辑
 const menu: any = buildMenuItems(resultSchema);
 [
-  new MenuItem({
-    label: '插入指定图片',
-    enable(state) {
-      // @ts-ignore
-      return insertAssignImg('default-pic')(state);
-    },
-    run: insertAssignImg('default-pic'),
-  }),
+  stickerMenuItem(),
   new MenuItem({
     label: '插入高亮块',
+    active: (state) => !!findHighlightBlock(state),
     run: setHighlightBlock(),
   }),
 ].forEach((_) => {
   menu.insertMenu.content.push(_);
 });
+menu.fullMenu.push(suggestionMenuItems(), [snapshotMenuItem()]);
+menu.bubbleMenu.push([commentMenuItem()]);
 
 // ======================================================== //
 //                      初始化编辑器                        //
 // ======================================================== //
 // 初始化编辑器
-const view: EditorView = new EditorView(document.querySelector('#editor'), {
-  state: EditorState.create({
-    doc: DOMParser.fromSchema(resultSchema).parse(
-      document.querySelector('#content') as Element,
-    ),
+const params = new URLSearchParams(window.location.search);
+const userName = params.get('name') || '匿名';
+// 不支持 IndexedDB 时 (如隐私模式) 版本只保存在内存中
+const snapshotStore =
+  typeof indexedDB === 'undefined'
+    ? new MemorySnapshotStore()
+    : new IndexedDBSnapshotStore();
+
+const createState = (doc: Node, extraPlugins: Plugin[] = []) =>
+  EditorState.create({
+    doc,
     plugins: [
+      ...extraPlugins,
+      // 补全面板打开时优先处理方向键和回车
+      stickerSuggestPlugin(),
+      slashCommandPlugin({ commands: buildSlashCommands(menu) }),
       ...exampleSetup({ schema: resultSchema, menuContent: menu.fullMenu }),
       wordCountPlugin({ limit: 600, mode: 'textSize' }),
-      // TocPlugin({ limit: 550, mode: 'textSize' }),
+      TocPlugin({ limit: 550, mode: 'textSize' }),
+      foldPlugin(),
+      headingIdPlugin(),
+      taskListPlugin(),
+      highlightBlockPlugin(),
+      imageUploadPlugin(),
+      imagePlugin(),
+      linkPlugin(),
+      searchPlugin(),
+      codeBlockPlugin(),
+      commentsPlugin({ author: userName }),
+      suggestionPlugin({ author: userName }),
+      snapshotPlugin({ store: snapshotStore }),
+      bubbleMenuPlugin({ content: menu.bubbleMenu }),
     ],
-  }),
-});
+  });
+
+const mount = (state: EditorState) => {
+  window.view = new EditorView(document.querySelector('#editor'), { state });
+};
 
-window.view = view;
+const mountLocal = () =>
+  mount(
+    createState(
+      DOMParser.fromSchema(resultSchema).parse(
+        document.querySelector('#content') as Element,
+      ),
+    ),
+  );
+
+// 协同编辑: ?collab=ws://localhost:8080&name=xx 连接到 authority, 使用其上的文档
+// authority 用 npm run collab-server 启动, 连接失败时打开本地文档
+const collabURL = params.get('collab');
+if (collabURL) {
+  const user = createCollabUser(userName);
+  connectCollab(webSocketTransport(collabURL), resultSchema, user)
+    .then(({ doc, plugins }) => mount(createState(doc, plugins)))
+    .catch((error) => {
+      console.error('[collab] failed to join, editing locally:', error);
+      mountLocal();
+    });
+} else {
+  mountLocal();
+}
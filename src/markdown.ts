@@ -0,0 +1,379 @@
+import MarkdownIt from 'markdown-it';
+import {
+  defaultMarkdownParser,
+  defaultMarkdownSerializer,
+  MarkdownParser,
+  MarkdownSerializer,
+  MarkdownSerializerState,
+} from 'prosemirror-markdown';
+import { Node, Schema } from 'prosemirror-model';
+
+import { resultSchema } from './schema';
+
+// ======================================================== //
+//                    Markdown 扩展语法                      //
+// ======================================================== //
+// 高亮块:
+//   :::highlight{bg=#fff7e6 border=#ffdfa3 emoji=💡}
+//   内容
+//   :::
+// 自定义图片: :dino[default-pic]:
+// 图片尺寸和对齐: ![alt](src){width=320 height=240 align=center}
+// 标题 id: ## 标题 {#id}
+// 任务列表: - [ ] 待办 / - [x] 已完成
+// 表格: GFM 表格, 第一行为表头
+
+const HIGHLIGHT_OPEN = /^(:{3,})highlight(?:\{([^}]*)\})?\s*$/;
+const DINO = /^:dino\[([\w-]+)\]:/;
+const IMAGE_ATTRS = /^\{((?:\s*(?:width|height|align)=[\w-]+)+)\s*\}/;
+const IMAGE_ALIGNS = ['left', 'center', 'right'];
+const HEADING_ID = /\s*\{#([\p{L}\p{N}_-]+)\}\s*$/u;
+const TASK_PREFIX = /^\[([ xX])\]\s+/;
+
+// `bg=#fff7e6 border=#ffdfa3` => { bg: '#fff7e6', border: '#ffdfa3' }
+const parseParams = (info: string) => {
+  const params: { [key: string]: string } = {};
+  info
+    .split(/\s+/)
+    .filter((_) => _)
+    .forEach((_) => {
+      const [key, value = ''] = _.split('=');
+      params[key] = value;
+    });
+  return params;
+};
+
+// 块级规则: ::: 围栏包裹的高亮块
+const highlightRule = (
+  state: MarkdownIt.StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean,
+) => {
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const match = HIGHLIGHT_OPEN.exec(state.src.slice(start, state.eMarks[startLine]));
+  if (!match) return false;
+  if (silent) return true;
+
+  const marker = match[1];
+  let nextLine = startLine + 1;
+  let closed = false;
+  for (; nextLine < endLine; nextLine++) {
+    if (state.sCount[nextLine] < state.blkIndent) break;
+    if (state.sCount[nextLine] - state.blkIndent >= 4) continue;
+    const line = state.src
+      .slice(state.bMarks[nextLine] + state.tShift[nextLine], state.eMarks[nextLine])
+      .trim();
+    if (/^:{3,}$/.test(line) && line.length >= marker.length) {
+      closed = true;
+      break;
+    }
+  }
+
+  const oldParent = state.parentType;
+  const oldLineMax = state.lineMax;
+  // @ts-expect-error markdown-it 允许自定义 parentType
+  state.parentType = 'highlight';
+  state.lineMax = nextLine;
+
+  const open = state.push('highlight_open', 'div', 1);
+  open.block = true;
+  open.markup = marker;
+  open.info = match[2] || '';
+  open.map = [startLine, nextLine];
+
+  state.md.block.tokenize(state, startLine + 1, nextLine);
+
+  const close = state.push('highlight_close', 'div', -1);
+  close.block = true;
+  close.markup = marker;
+
+  state.parentType = oldParent;
+  state.lineMax = oldLineMax;
+  state.line = closed ? nextLine + 1 : nextLine;
+  return true;
+};
+
+// 行内规则: :dino[type]:
+const dinoRule = (state: MarkdownIt.StateInline, silent: boolean) => {
+  if (state.src.charCodeAt(state.pos) !== 0x3a /* : */) return false;
+
+  const match = DINO.exec(state.src.slice(state.pos));
+  if (!match) return false;
+
+  if (!silent) {
+    const token = state.push('dino', 'img', 0);
+    token.attrSet('type', match[1]);
+    token.markup = match[0];
+  }
+  state.pos += match[0].length;
+  return true;
+};
+
+// 行内规则: 紧跟在图片后面的 {width=320 align=center}
+const imageAttrsRule = (state: MarkdownIt.StateInline, silent: boolean) => {
+  if (state.src.charCodeAt(state.pos) !== 0x7b /* { */) return false;
+
+  const image = state.tokens[state.tokens.length - 1];
+  if (!image || image.type !== 'image' || state.pending) return false;
+  const match = IMAGE_ATTRS.exec(state.src.slice(state.pos));
+  if (!match) return false;
+
+  if (!silent) {
+    const params = parseParams(match[1]);
+    Object.keys(params).forEach((key) => image.attrSet(key, params[key]));
+  }
+  state.pos += match[0].length;
+  return true;
+};
+
+// 核心规则: 把标题末尾的 {#id} 提取为 heading_open 的属性
+const headingIdRule = (state: MarkdownIt.StateCore) => {
+  const { tokens } = state;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].type !== 'heading_open') continue;
+    const inline = tokens[i + 1];
+    const match = HEADING_ID.exec(inline.content);
+    if (!match) continue;
+    tokens[i].attrSet('id', match[1]);
+    inline.content = inline.content.slice(0, match.index);
+  }
+};
+
+// 核心规则: 每一项都以 [ ] / [x] 开头的无序列表转换为任务列表
+const taskListRule = (state: MarkdownIt.StateCore) => {
+  const { tokens } = state;
+  tokens.forEach((open, i) => {
+    if (open.type !== 'bullet_list_open') return;
+    const items: number[] = [];
+    let close = i + 1;
+    for (; close < tokens.length; close++) {
+      const token = tokens[close];
+      if (token.level === open.level && token.type === 'bullet_list_close') break;
+      if (token.level === open.level + 1 && token.type === 'list_item_open')
+        items.push(close);
+    }
+    const isTask = (index: number) =>
+      tokens[index + 1].type === 'paragraph_open' &&
+      tokens[index + 2].type === 'inline' &&
+      TASK_PREFIX.test(tokens[index + 2].content);
+    if (!items.length || !items.every(isTask)) return;
+
+    open.type = 'task_list_open';
+    tokens[close].type = 'task_list_close';
+    for (let j = i + 1; j < close; j++) {
+      const token = tokens[j];
+      if (token.level !== open.level + 1) continue;
+      if (token.type === 'list_item_open') {
+        const inline = tokens[j + 2];
+        const match = TASK_PREFIX.exec(inline.content) as RegExpExecArray;
+        token.type = 'task_item_open';
+        token.attrSet('checked', String(match[1] !== ' '));
+        inline.content = inline.content.slice(match[0].length);
+      } else if (token.type === 'list_item_close') {
+        token.type = 'task_item_close';
+      }
+    }
+  });
+};
+
+// 核心规则: 表格单元格的内容需要包一层段落 (cellContent 为 block+)
+const tableCellRule = (state: MarkdownIt.StateCore) => {
+  const tokens: MarkdownIt.Token[] = [];
+  state.tokens.forEach((token, i) => {
+    const prev = state.tokens[i - 1];
+    const inCell = prev && (prev.type === 'th_open' || prev.type === 'td_open');
+    if (inCell && token.type === 'inline') {
+      tokens.push(new state.Token('paragraph_open', 'p', 1));
+      tokens.push(token);
+      tokens.push(new state.Token('paragraph_close', 'p', -1));
+    } else {
+      tokens.push(token);
+    }
+  });
+  state.tokens = tokens;
+};
+
+const markdownIt = MarkdownIt('commonmark', { html: false }).enable('table');
+markdownIt.block.ruler.before('fence', 'highlight', highlightRule, {
+  alt: ['paragraph', 'reference', 'blockquote', 'list'],
+});
+markdownIt.inline.ruler.before('emphasis', 'dino', dinoRule);
+markdownIt.inline.ruler.before('emphasis', 'image_attrs', imageAttrsRule);
+markdownIt.core.ruler.before('inline', 'heading_id', headingIdRule);
+markdownIt.core.ruler.before('inline', 'task_list', taskListRule);
+markdownIt.core.ruler.after('inline', 'table_cell', tableCellRule);
+
+// ======================================================== //
+//                      Markdown 解析                        //
+// ======================================================== //
+export const buildMarkdownParser = (schema: Schema) =>
+  new MarkdownParser(schema, markdownIt, {
+    ...defaultMarkdownParser.tokens,
+    // 只取 info 的第一个词作为语言: ```ts {1,3}
+    fence: {
+      block: 'code_block',
+      getAttrs: (tok) => ({ language: tok.info.trim().split(/\s+/)[0] || null }),
+      noCloseToken: true,
+    },
+    heading: {
+      block: 'heading',
+      getAttrs: (tok) => ({
+        level: +tok.tag.slice(1),
+        id: tok.attrGet('id'),
+      }),
+    },
+    image: {
+      node: 'image',
+      getAttrs: (tok) => {
+        const size = (name: string) => {
+          const value = parseInt(tok.attrGet(name) || '', 10);
+          return value > 0 ? value : null;
+        };
+        const align = tok.attrGet('align');
+        return {
+          src: tok.attrGet('src'),
+          title: tok.attrGet('title') || null,
+          alt: (tok.children && tok.children[0] && tok.children[0].content) || null,
+          width: size('width'),
+          height: size('height'),
+          align: align && IMAGE_ALIGNS.includes(align) ? align : null,
+        };
+      },
+    },
+    dino: {
+      node: 'dino',
+      getAttrs: (tok) => ({ type: tok.attrGet('type') }),
+    },
+    task_list: { block: 'task_list' },
+    task_item: {
+      block: 'task_item',
+      getAttrs: (tok) => ({ checked: tok.attrGet('checked') === 'true' }),
+    },
+    table: { block: 'table' },
+    thead: { ignore: true },
+    tbody: { ignore: true },
+    tr: { block: 'table_row' },
+    th: { block: 'table_header' },
+    td: { block: 'table_cell' },
+    highlight: {
+      block: 'highlightBlock',
+      getAttrs: (tok) => {
+        const { bg, border, emoji } = parseParams(tok.info);
+        const attrs: { [key: string]: string } = {};
+        if (bg) attrs.backgroundColor = bg;
+        if (border) attrs.borderColor = border;
+        if (emoji) attrs.emoji = emoji;
+        return attrs;
+      },
+    },
+  });
+
+// ======================================================== //
+//                     Markdown 序列化                       //
+// ======================================================== //
+export const buildMarkdownSerializer = () =>
+  new MarkdownSerializer(
+    {
+      ...defaultMarkdownSerializer.nodes,
+      code_block(state: MarkdownSerializerState, node: Node) {
+        // 围栏长度要大于内容里出现过的最长反引号序列
+        const backticks = node.textContent.match(/`{3,}/gm);
+        const fence = backticks ? backticks.sort().slice(-1)[0] + '`' : '```';
+        state.write(fence + (node.attrs.language || '') + '\n');
+        state.text(node.textContent, false);
+        state.write('\n');
+        state.write(fence);
+        state.closeBlock(node);
+      },
+      heading(state: MarkdownSerializerState, node: Node) {
+        state.write(state.repeat('#', node.attrs.level) + ' ');
+        state.renderInline(node);
+        if (node.attrs.id) state.write(` {#${node.attrs.id}}`);
+        state.closeBlock(node);
+      },
+      image(state: MarkdownSerializerState, node: Node, parent: Node, index: number) {
+        defaultMarkdownSerializer.nodes.image(state, node, parent, index);
+        const { width, height, align } = node.attrs;
+        const params = [
+          width && `width=${width}`,
+          height && `height=${height}`,
+          align && `align=${align}`,
+        ].filter((_) => _);
+        if (params.length) state.write(`{${params.join(' ')}}`);
+      },
+      dino(state: MarkdownSerializerState, node: Node) {
+        state.write(`:dino[${node.attrs.type}]:`);
+      },
+      task_list(state: MarkdownSerializerState, node: Node) {
+        state.renderList(node, '  ', () => '- ');
+      },
+      task_item(state: MarkdownSerializerState, node: Node) {
+        state.write(node.attrs.checked ? '[x] ' : '[ ] ');
+        state.renderContent(node);
+      },
+      table(state: MarkdownSerializerState, node: Node) {
+        // 单元格里的 | 要转义, 否则会被当成列分隔符
+        const { escapeExtraCharacters } = state.options;
+        state.options.escapeExtraCharacters = /\|/g;
+        node.forEach((row, _, index) => {
+          if (index) state.ensureNewLine();
+          state.write('|');
+          row.forEach((cell) => {
+            state.write(' ');
+            // GFM 单元格只能放行内内容, 多个段落用空格连接
+            cell.forEach((block, __, i) => {
+              if (i) state.write(' ');
+              if (block.isTextblock) state.renderInline(block);
+              else state.text(block.textContent);
+            });
+            state.write(' |');
+          });
+          if (!index) {
+            state.ensureNewLine();
+            state.write('|' + ' --- |'.repeat(row.childCount));
+          }
+        });
+        state.options.escapeExtraCharacters = escapeExtraCharacters;
+        state.closeBlock(node);
+      },
+      highlightBlock(state: MarkdownSerializerState, node: Node) {
+        // 围栏长度要大于内容里出现过的最长冒号序列, 逐个文本块检查行首
+        let longest = 2;
+        node.descendants((child) => {
+          if (!child.isTextblock) return true;
+          child.textContent.match(/^:{3,}/gm)?.forEach((colons) => {
+            longest = Math.max(longest, colons.length);
+          });
+          return false;
+        });
+        const fence = ':'.repeat(longest + 1);
+        const { backgroundColor, borderColor, emoji } = node.attrs;
+        const params = `bg=${backgroundColor} border=${borderColor}${
+          emoji ? ` emoji=${emoji}` : ''
+        }`;
+        state.write(`${fence}highlight{${params}}\n`);
+        state.renderContent(node);
+        state.write(fence);
+        state.closeBlock(node);
+      },
+    },
+    {
+      ...defaultMarkdownSerializer.marks,
+      // Markdown 没有修订语法, 未处理的修订原样导出 (建议删除的文字仍会保留)
+      insertion: { open: '', close: '', mixable: true, expelEnclosingWhitespace: true },
+      deletion: { open: '', close: '', mixable: true, expelEnclosingWhitespace: true },
+    },
+  );
+
+export const markdownParser = buildMarkdownParser(resultSchema);
+export const markdownSerializer = buildMarkdownSerializer();
+
+// Markdown => doc
+export const parseMarkdown = (markdown: string) => markdownParser.parse(markdown);
+
+// doc => Markdown
+export const serializeMarkdown = (doc: Node) =>
+  markdownSerializer.serialize(doc, { tightLists: true });
@@ -0,0 +1,241 @@
+import { AttributeSpec, Mark, Node, Schema } from 'prosemirror-model';
+import { EditorState, Plugin, Selection } from 'prosemirror-state';
+
+import { resultSchema } from './schema';
+
+// Node.toJSON() 的结构
+export interface DocJSON {
+  type: string;
+  attrs?: { [key: string]: any };
+  content?: DocJSON[];
+  marks?: { type: string; attrs?: { [key: string]: any } }[];
+  text?: string;
+}
+
+export interface SavedDocument {
+  version: number;
+  doc: DocJSON;
+  selection?: { [key: string]: any };
+}
+
+// 把 version - 1 版本的文档迁移到 version 版本
+export type Migration = (doc: DocJSON) => DocJSON;
+
+export interface LoadIssue {
+  // 出错节点的路径, 如 `content[2].content[0]`
+  path: string;
+  message: string;
+}
+
+export class DocumentLoadError extends Error {
+  readonly issues: LoadIssue[];
+
+  constructor(issues: LoadIssue[]) {
+    super(
+      'Invalid document:\n' +
+        issues.map(({ path, message }) => `  ${path || '(root)'}: ${message}`).join('\n'),
+    );
+    this.name = 'DocumentLoadError';
+    this.issues = issues;
+  }
+}
+
+const migrations = new Map<number, Migration>();
+
+// 第一版文档的版本号
+const INITIAL_VERSION = 1;
+
+// 当前 schema 版本: schema 有不兼容的改动时注册下一个版本的迁移函数,
+// 版本号即已注册的最大版本, 保存时写入
+export const schemaVersion = () => Math.max(INITIAL_VERSION, ...migrations.keys());
+
+// 注册迁移函数, 加载旧版本文档时依次执行
+export const registerMigration = (version: number, migrate: Migration) => {
+  if (version <= INITIAL_VERSION)
+    throw new RangeError(`Migration version ${version} out of range`);
+  if (migrations.has(version))
+    throw new RangeError(`Migration for version ${version} already registered`);
+  migrations.set(version, migrate);
+};
+
+export const migrateDocument = (saved: SavedDocument): SavedDocument => {
+  const { version } = saved;
+  const current = schemaVersion();
+  if (typeof version !== 'number' || version < INITIAL_VERSION)
+    throw new DocumentLoadError([{ path: '', message: `Missing schema version` }]);
+  if (version > current)
+    throw new DocumentLoadError([
+      {
+        path: '',
+        message: `Document version ${version} is newer than schema version ${current}`,
+      },
+    ]);
+
+  let { doc } = saved;
+  for (let v = version + 1; v <= current; v++) {
+    const migrate = migrations.get(v);
+    if (!migrate)
+      throw new DocumentLoadError([
+        { path: '', message: `No migration registered for version ${v}` },
+      ]);
+    doc = migrate(doc);
+  }
+  return { ...saved, version: current, doc };
+};
+
+// ======================================================== //
+//                       JSON 校验                          //
+// ======================================================== //
+// prosemirror 在 attrs 为空时不会检查必填属性, 这里补上
+const missingAttrs = (
+  spec: { [name: string]: AttributeSpec } = {},
+  given: { [key: string]: any } | undefined,
+) =>
+  Object.keys(spec).filter((name) => !('default' in spec[name]) && given?.[name] == null);
+
+const marksFromJSON = (
+  schema: Schema,
+  json: DocJSON,
+  path: string,
+  issues: LoadIssue[],
+) => {
+  const marks: Mark[] = [];
+  (json.marks || []).forEach((item, i) => {
+    const markType = schema.marks[item.type];
+    if (!markType) {
+      issues.push({
+        path: `${path}.marks[${i}]`,
+        message: `Unknown mark "${item.type}"`,
+      });
+      return;
+    }
+    const missing = missingAttrs(markType.spec.attrs, item.attrs);
+    if (missing.length) {
+      issues.push({
+        path: `${path}.marks[${i}]`,
+        message: `Missing attributes ${missing.join(', ')} on mark ${markType.name}`,
+      });
+      return;
+    }
+    try {
+      marks.push(markType.create(item.attrs));
+    } catch (e) {
+      issues.push({ path: `${path}.marks[${i}]`, message: (e as Error).message });
+    }
+  });
+  return marks;
+};
+
+const nodeFromJSON = (
+  schema: Schema,
+  json: DocJSON,
+  path: string,
+  issues: LoadIssue[],
+): Node | null => {
+  if (!json || typeof json.type !== 'string') {
+    issues.push({ path, message: 'Not a node' });
+    return null;
+  }
+  const type = schema.nodes[json.type];
+  if (!type) {
+    issues.push({ path, message: `Unknown node type "${json.type}"` });
+    return null;
+  }
+
+  const marks = marksFromJSON(schema, json, path, issues);
+  marks.forEach((mark) => {
+    if (!type.allowsMarkType(mark.type))
+      issues.push({
+        path,
+        message: `Mark "${mark.type.name}" not allowed on ${type.name}`,
+      });
+  });
+
+  if (type.isText) {
+    if (typeof json.text !== 'string' || !json.text) {
+      issues.push({ path, message: 'Empty text node' });
+      return null;
+    }
+    return schema.text(json.text, marks);
+  }
+
+  const children: Node[] = [];
+  (json.content || []).forEach((child, i) => {
+    const node = nodeFromJSON(
+      schema,
+      child,
+      `${path ? path + '.' : ''}content[${i}]`,
+      issues,
+    );
+    if (node) children.push(node);
+  });
+
+  const missing = missingAttrs(type.spec.attrs, json.attrs);
+  if (missing.length) {
+    issues.push({
+      path,
+      message: `Missing attributes ${missing.join(', ')} on ${type.name}`,
+    });
+    return null;
+  }
+
+  let node: Node;
+  try {
+    node = type.create(json.attrs, children, marks);
+  } catch (e) {
+    issues.push({ path, message: (e as Error).message });
+    return null;
+  }
+  if (!type.validContent(node.content))
+    issues.push({
+      path,
+      message: `Invalid content for ${type.name}: ${node.content.toString()}`,
+    });
+  return node;
+};
+
+// 把 JSON 转成文档节点, 有问题时抛出带节点路径的 DocumentLoadError
+export const docFromJSON = (json: DocJSON, schema: Schema = resultSchema) => {
+  const issues: LoadIssue[] = [];
+  const doc = nodeFromJSON(schema, json, '', issues);
+  if (doc && doc.type !== schema.topNodeType)
+    issues.push({ path: '', message: `Expected ${schema.topNodeType.name} at the root` });
+  if (!doc || issues.length) throw new DocumentLoadError(issues);
+  return doc;
+};
+
+// ======================================================== //
+//                       保存 / 加载                         //
+// ======================================================== //
+export const saveDocument = (state: EditorState): SavedDocument => ({
+  version: schemaVersion(),
+  doc: state.doc.toJSON(),
+  selection: state.selection.toJSON(),
+});
+
+export const loadDocument = (
+  saved: SavedDocument,
+  options: { schema?: Schema; plugins?: readonly Plugin[] } = {},
+) => {
+  const { schema = resultSchema, plugins } = options;
+  const migrated = migrateDocument(saved);
+  const doc = docFromJSON(migrated.doc, schema);
+
+  let selection: Selection | undefined;
+  if (migrated.selection) {
+    try {
+      selection = Selection.fromJSON(doc, migrated.selection);
+    } catch (e) {
+      // 选区失效时退回到文档开头
+    }
+  }
+  return EditorState.create({ schema, doc, selection, plugins });
+};
+
+export const serializeDocument = (state: EditorState) =>
+  JSON.stringify(saveDocument(state));
+
+export const parseDocument = (
+  json: string,
+  options?: { schema?: Schema; plugins?: readonly Plugin[] },
+) => loadDocument(JSON.parse(json), options);
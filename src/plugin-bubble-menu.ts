@@ -0,0 +1,111 @@
+import { type MenuElement, renderGrouped } from 'prosemirror-menu';
+import { type EditorState, Plugin, PluginKey, TextSelection } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+import { createElement } from './utils';
+
+// 与选区保持的间距
+const OFFSET = 8;
+
+// 选中非空文字且当前块允许 mark 时显示 (代码块中不显示)
+const shouldShow = (state: EditorState) => {
+  const { selection } = state;
+  if (!(selection instanceof TextSelection) || selection.empty) return false;
+  const { $from, $to } = selection;
+  return [$from, $to].every(
+    ($pos) => $pos.parent.inlineContent && !$pos.parent.type.spec.code,
+  );
+};
+
+class BubbleMenuView {
+  dom: HTMLElement;
+  view: EditorView;
+  update: (state: EditorState) => boolean;
+  // 鼠标拖动选择时不显示, 松开后再显示
+  selecting = false;
+  onScroll: () => void;
+  onMouseDown: () => void;
+  onMouseUp: () => void;
+  onFocusChange: () => void;
+
+  constructor(view: EditorView, content: readonly (readonly MenuElement[])[]) {
+    this.view = view;
+    this.dom = document.body.appendChild(createElement('div', 'yl-bubble-menu'));
+    this.dom.style.display = 'none';
+    const { dom, update } = renderGrouped(view, content);
+    this.dom.appendChild(dom);
+    this.update = update;
+
+    this.onScroll = () => this.render(this.view);
+    this.onMouseDown = () => {
+      this.selecting = true;
+    };
+    this.onMouseUp = () => {
+      if (!this.selecting) return;
+      this.selecting = false;
+      this.render(this.view);
+    };
+    this.onFocusChange = () => this.render(this.view);
+    window.addEventListener('scroll', this.onScroll, true);
+    window.addEventListener('resize', this.onScroll);
+    view.dom.addEventListener('mousedown', this.onMouseDown);
+    document.addEventListener('mouseup', this.onMouseUp);
+    view.dom.addEventListener('focus', this.onFocusChange);
+    view.dom.addEventListener('blur', this.onFocusChange);
+    this.render(view);
+  }
+
+  render(view: EditorView) {
+    this.view = view;
+    const { state } = view;
+    if (this.selecting || !view.editable || !view.hasFocus() || !shouldShow(state)) {
+      this.dom.style.display = 'none';
+      return;
+    }
+    // 所有菜单项都不可用时不显示
+    if (!this.update(state)) {
+      this.dom.style.display = 'none';
+      return;
+    }
+
+    this.dom.style.display = '';
+    const { from, to } = state.selection;
+    const start = view.coordsAtPos(from);
+    const end = view.coordsAtPos(to, -1);
+    const { offsetWidth, offsetHeight } = this.dom;
+    // 同一行时居中, 跨行时与选区开头对齐
+    const left =
+      start.top === end.top ? (start.left + end.left - offsetWidth) / 2 : start.left;
+    let top = start.top - offsetHeight - OFFSET;
+    // 上方放不下时放到选区下方
+    if (top < 0) top = end.bottom + OFFSET;
+    this.dom.style.top = top + 'px';
+    this.dom.style.left =
+      Math.max(0, Math.min(left, window.innerWidth - offsetWidth)) + 'px';
+  }
+
+  destroy() {
+    window.removeEventListener('scroll', this.onScroll, true);
+    window.removeEventListener('resize', this.onScroll);
+    this.view.dom.removeEventListener('mousedown', this.onMouseDown);
+    document.removeEventListener('mouseup', this.onMouseUp);
+    this.view.dom.removeEventListener('focus', this.onFocusChange);
+    this.view.dom.removeEventListener('blur', this.onFocusChange);
+    this.dom.remove();
+  }
+}
+
+export const bubbleMenuPlugin = (options: {
+  content: readonly (readonly MenuElement[])[];
+}) => {
+  return new Plugin({
+    key: new PluginKey('bubbleMenu'),
+    view(view) {
+      const menu = new BubbleMenuView(view, options.content);
+      return {
+        update: (view) => menu.render(view),
+        destroy: () => menu.destroy(),
+      };
+    },
+  });
+};
@@ -0,0 +1,258 @@
+import { type Node } from 'prosemirror-model';
+import {
+  type EditorState,
+  type Transaction,
+  Plugin,
+  PluginKey,
+  TextSelection,
+} from 'prosemirror-state';
+import { AttrStep } from 'prosemirror-transform';
+import {
+  type EditorView,
+  type NodeView,
+  type ViewMutationRecord,
+  Decoration,
+  DecorationSet,
+} from 'prosemirror-view';
+
+import { getLanguage, listLanguages, tokenize } from './code-languages';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const INDENT = '  ';
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+// 选区所在的代码块, 选区跨出代码块时返回 null
+const findCodeBlock = (state: EditorState) => {
+  const { $from, $to } = state.selection;
+  if (!$from.parent.type.spec.code || !$from.sameParent($to)) return null;
+  return { node: $from.parent, start: $from.start(), end: $from.end() };
+};
+
+// 选区覆盖的各行行首, 相对代码块内容的偏移
+const lineStarts = (text: string, from: number, to: number) => {
+  const starts = [text.lastIndexOf('\n', from - 1) + 1];
+  for (
+    let i = text.indexOf('\n', from);
+    i !== -1 && i < to;
+    i = text.indexOf('\n', i + 1)
+  )
+    starts.push(i + 1);
+  return starts;
+};
+
+// Tab: 光标处插入缩进, 选中多行时每行缩进
+export const indentCode: Command = (state, dispatch) => {
+  const block = findCodeBlock(state);
+  if (!block) return false;
+  if (dispatch) {
+    const { from, to, empty } = state.selection;
+    const tr = state.tr;
+    if (empty) {
+      tr.insertText(INDENT);
+    } else {
+      lineStarts(block.node.textContent, from - block.start, to - block.start)
+        .reverse()
+        .forEach((start) => tr.insertText(INDENT, block.start + start));
+    }
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
+
+// Shift-Tab: 去掉选区各行开头的缩进
+export const outdentCode: Command = (state, dispatch) => {
+  const block = findCodeBlock(state);
+  if (!block) return false;
+  if (dispatch) {
+    const { from, to } = state.selection;
+    const text = block.node.textContent;
+    const tr = state.tr;
+    lineStarts(text, from - block.start, to - block.start)
+      .reverse()
+      .forEach((start) => {
+        const space = /^(?: {1,2}|\t)/.exec(text.slice(start));
+        if (space) tr.delete(block.start + start, block.start + start + space[0].length);
+      });
+    // 没有可去掉的缩进时也拦截, 避免焦点移出编辑器
+    if (tr.docChanged) dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
+
+// Mod-a: 先选中代码块内容, 已全选时再选中整个文档
+export const selectCodeBlock: Command = (state, dispatch) => {
+  const block = findCodeBlock(state);
+  if (!block) return false;
+  const { from, to } = state.selection;
+  if (from === block.start && to === block.end) return false;
+  if (dispatch)
+    dispatch(
+      state.tr.setSelection(TextSelection.create(state.doc, block.start, block.end)),
+    );
+  return true;
+};
+
+export const setCodeBlockLanguage = (pos: number, language: string | null): Command => {
+  return (state, dispatch) => {
+    const node = state.doc.nodeAt(pos);
+    if (!node || !node.type.spec.code) return false;
+    if (dispatch) dispatch(state.tr.setNodeAttribute(pos, 'language', language));
+    return true;
+  };
+};
+
+// ======================================================== //
+//                        语法高亮                          //
+// ======================================================== //
+const highlightDecorations = (node: Node, pos: number) =>
+  tokenize(node.textContent, getLanguage(node.attrs.language)).map(
+    ({ from, to, token }) =>
+      Decoration.inline(pos + 1 + from, pos + 1 + to, { class: `yl-code-${token}` }),
+  );
+
+// 事务中改动过的范围, 映射到新文档
+const changedRanges = (tr: Transaction) => {
+  const ranges: [number, number][] = [];
+  tr.mapping.maps.forEach((map, i) => {
+    const rest = tr.mapping.slice(i + 1);
+    map.forEach((_, __, from, to) => ranges.push([rest.map(from, -1), rest.map(to, 1)]));
+  });
+  // 修改属性的 step 没有位置映射, 单独处理 (切换语言)
+  tr.steps.forEach((step, i) => {
+    if (!(step instanceof AttrStep)) return;
+    const pos = tr.mapping.slice(i + 1).map(step.pos);
+    ranges.push([pos, pos + 1]);
+  });
+  return ranges;
+};
+
+// 只重新计算改动范围内的代码块
+const updateHighlight = (tr: Transaction, prev: DecorationSet) => {
+  const { doc } = tr;
+  const blocks = new Map<number, Node>();
+  changedRanges(tr).forEach(([from, to]) => {
+    doc.nodesBetween(
+      Math.max(0, from - 1),
+      Math.min(doc.content.size, to + 1),
+      (node, pos) => {
+        if (!node.isTextblock) return true;
+        blocks.set(pos, node);
+        return false;
+      },
+    );
+  });
+
+  let decorations = prev.map(tr.mapping, doc);
+  blocks.forEach((node, pos) => {
+    decorations = decorations.remove(decorations.find(pos, pos + node.nodeSize));
+    if (node.type.spec.code)
+      decorations = decorations.add(doc, highlightDecorations(node, pos));
+  });
+  return decorations;
+};
+
+// ======================================================== //
+//                        语言选择                          //
+// ======================================================== //
+class CodeBlockView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  node: Node;
+  view: EditorView;
+  getPos: () => number | undefined;
+  select: HTMLSelectElement;
+
+  constructor(node: Node, view: EditorView, getPos: () => number | undefined) {
+    this.node = node;
+    this.view = view;
+    this.getPos = getPos;
+
+    this.dom = createElement('div', 'yl-code-block');
+    const toolbar = this.dom.appendChild(createElement('div', 'yl-code-block-toolbar'));
+    toolbar.contentEditable = 'false';
+    this.select = toolbar.appendChild(document.createElement('select'));
+    this.select.className = 'yl-code-block-language';
+    this.select.setAttribute('aria-label', '代码语言');
+    this.select.addEventListener('change', () => {
+      const pos = this.getPos();
+      if (pos == null) return;
+      const { view } = this;
+      setCodeBlockLanguage(pos, this.select.value || null)(view.state, view.dispatch);
+      view.focus();
+    });
+
+    const pre = this.dom.appendChild(document.createElement('pre'));
+    this.contentDOM = pre.appendChild(document.createElement('code'));
+    this.render();
+  }
+
+  render() {
+    const { language } = this.node.attrs;
+    const known = getLanguage(language);
+    const options = [
+      { value: '', label: '纯文本' },
+      ...listLanguages().map(({ name, label }) => ({ value: name, label })),
+    ];
+    // 未注册的语言保留原值, 不高亮
+    if (language && !known) options.push({ value: language, label: language });
+
+    this.select.innerHTML = '';
+    options.forEach(({ value, label }) => {
+      const option = this.select.appendChild(document.createElement('option'));
+      option.value = value;
+      option.textContent = label;
+    });
+    this.select.value = known ? known.name : language || '';
+    this.contentDOM.className = language ? `language-${language}` : '';
+  }
+
+  update(node: Node) {
+    if (node.type !== this.node.type) return false;
+    const changed = node.attrs.language !== this.node.attrs.language;
+    this.node = node;
+    if (changed) this.render();
+    return true;
+  }
+
+  stopEvent(event: Event) {
+    return this.select.contains(event.target as HTMLElement);
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.type === 'selection') return false;
+    return !this.contentDOM.contains(mutation.target);
+  }
+}
+
+export const codeBlockKey = new PluginKey<DecorationSet>('codeBlock');
+
+export const codeBlockPlugin = () => {
+  return new Plugin<DecorationSet>({
+    key: codeBlockKey,
+    state: {
+      init(_, { doc }) {
+        const decorations: Decoration[] = [];
+        doc.descendants((node, pos) => {
+          if (node.type.spec.code) decorations.push(...highlightDecorations(node, pos));
+          return !node.isTextblock;
+        });
+        return DecorationSet.create(doc, decorations);
+      },
+      apply(tr, prev) {
+        return tr.docChanged ? updateHighlight(tr, prev) : prev;
+      },
+    },
+    props: {
+      decorations(state) {
+        return codeBlockKey.getState(state);
+      },
+      nodeViews: {
+        code_block: (node, view, getPos) => new CodeBlockView(node, view, getPos),
+      },
+    },
+  });
+};
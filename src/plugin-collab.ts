@@ -0,0 +1,515 @@
+import {
+  collab,
+  getVersion,
+  receiveTransaction,
+  sendableSteps,
+} from 'prosemirror-collab';
+import { type Node, type Schema } from 'prosemirror-model';
+import { type EditorState, type Transaction, Plugin, PluginKey } from 'prosemirror-state';
+import { type Mappable, Mapping, Step, StepResult } from 'prosemirror-transform';
+import { type EditorView, Decoration, DecorationSet } from 'prosemirror-view';
+
+import { createElement } from './utils';
+
+// 协同编辑: 各客户端把本地 steps 发给中心节点 (authority), 按其确认的顺序应用
+//   const { doc, plugins } = await connectCollab(transport, schema, user);
+//   new EditorView(dom, { state: EditorState.create({ doc, plugins: [...plugins, ...] }) });
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// 其他客户端的选区, 位置对应 version 时的文档
+interface Presence {
+  clientID: string;
+  user: CollabUser;
+  anchor: number;
+  head: number;
+}
+
+type ClientMessage =
+  | { type: 'join'; clientID: string; user: CollabUser }
+  | { type: 'steps'; version: number; steps: unknown[] }
+  | { type: 'pull'; version: number }
+  | { type: 'selection'; version: number; anchor: number; head: number };
+
+type ServerMessage =
+  | { type: 'init'; doc: unknown; version: number; presence: Presence[] }
+  | { type: 'steps'; version: number; steps: unknown[]; clientIDs: string[] }
+  // 在 version 上提交的 steps 未被接受, latest 为 authority 当前的版本
+  | { type: 'rejected'; version: number; latest: number }
+  | { type: 'presence'; version: number; presence: Presence }
+  | { type: 'leave'; clientID: string };
+
+const COLORS = [
+  '#f5222d',
+  '#fa8c16',
+  '#52c41a',
+  '#13c2c2',
+  '#1677ff',
+  '#722ed1',
+  '#eb2f96',
+];
+
+const randomID = () => Math.random().toString(36).slice(2, 10);
+
+export const createCollabUser = (name: string, id = randomID()): CollabUser => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return { id, name, color: COLORS[Math.abs(hash) % COLORS.length] };
+};
+
+const mapPresence = (presence: Presence, mapping: Mappable): Presence => ({
+  ...presence,
+  anchor: mapping.map(presence.anchor),
+  head: mapping.map(presence.head),
+});
+
+// ======================================================== //
+//                        中心节点                          //
+// ======================================================== //
+// 内存中的参考实现, 可在同一进程中使用 (localTransport), 也可挂到 WebSocket 服务上,
+// 见 scripts/collab-server.ts (npm run collab-server)
+export class CollabAuthority {
+  doc: Node;
+  steps: Step[] = [];
+  stepClientIDs: string[] = [];
+  private connections = new Map<string, (message: ServerMessage) => void>();
+  private presence = new Map<string, Presence>();
+
+  constructor(doc: Node) {
+    this.doc = doc;
+  }
+
+  get version() {
+    return this.steps.length;
+  }
+
+  // 版本不一致时拒绝, 客户端收到缺少的 steps 后会 rebase 再提交
+  receiveSteps(version: number, steps: Step[], clientID: string) {
+    if (version !== this.version) return false;
+    let { doc } = this;
+    for (const step of steps) {
+      // 位置超出文档范围时 apply 会直接抛出异常
+      let result: StepResult;
+      try {
+        result = step.apply(doc);
+      } catch (e) {
+        result = StepResult.fail((e as Error).message);
+      }
+      if (!result.doc) {
+        console.warn('[collab] rejected step:', result.failed);
+        return false;
+      }
+      doc = result.doc;
+    }
+
+    this.doc = doc;
+    this.steps.push(...steps);
+    steps.forEach(() => this.stepClientIDs.push(clientID));
+    const mapping = new Mapping(steps.map((step) => step.getMap()));
+    this.presence.forEach((presence, id) =>
+      this.presence.set(id, mapPresence(presence, mapping)),
+    );
+    this.broadcast({
+      type: 'steps',
+      version,
+      steps: steps.map((step) => step.toJSON()),
+      clientIDs: steps.map(() => clientID),
+    });
+    return true;
+  }
+
+  stepsSince(version: number) {
+    return {
+      steps: this.steps.slice(version),
+      clientIDs: this.stepClientIDs.slice(version),
+    };
+  }
+
+  // 建立一个连接, send 发送给客户端, 返回的 receive 处理客户端的消息
+  connect(send: (message: string) => void) {
+    let clientID: string | null = null;
+    const post = (message: ServerMessage) => send(JSON.stringify(message));
+
+    const receive = (raw: string) => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(raw);
+      } catch (e) {
+        console.warn('[collab] invalid message:', raw);
+        return;
+      }
+      const { schema } = this.doc.type;
+      switch (message.type) {
+        case 'join':
+          clientID = message.clientID;
+          this.connections.set(clientID, post);
+          post({
+            type: 'init',
+            doc: this.doc.toJSON(),
+            version: this.version,
+            presence: Array.from(this.presence.values()),
+          });
+          this.presence.set(clientID, {
+            clientID,
+            user: message.user,
+            anchor: 0,
+            head: 0,
+          });
+          break;
+        case 'steps': {
+          if (!clientID) return;
+          let steps: Step[] | null = null;
+          try {
+            steps = message.steps.map((json) => Step.fromJSON(schema, json));
+          } catch (e) {
+            console.warn('[collab] invalid steps:', (e as Error).message);
+          }
+          // 没有被接受时告诉客户端, 否则它会一直等待这次提交的回应
+          if (!steps || !this.receiveSteps(message.version, steps, clientID))
+            post({ type: 'rejected', version: message.version, latest: this.version });
+          break;
+        }
+        case 'pull': {
+          const { steps, clientIDs } = this.stepsSince(message.version);
+          post({
+            type: 'steps',
+            version: message.version,
+            steps: steps.map((step) => step.toJSON()),
+            clientIDs,
+          });
+          break;
+        }
+        case 'selection': {
+          const current = clientID && this.presence.get(clientID);
+          if (!current || message.version > this.version) return;
+          const mapping = new Mapping(
+            this.steps.slice(message.version).map((step) => step.getMap()),
+          );
+          const { anchor, head } = message;
+          const presence = mapPresence({ ...current, anchor, head }, mapping);
+          this.presence.set(current.clientID, presence);
+          this.broadcast({ type: 'presence', version: this.version, presence }, clientID);
+          break;
+        }
+      }
+    };
+
+    const close = () => {
+      if (!clientID) return;
+      this.connections.delete(clientID);
+      this.presence.delete(clientID);
+      this.broadcast({ type: 'leave', clientID });
+      clientID = null;
+    };
+
+    return { receive, close };
+  }
+
+  private broadcast(message: ServerMessage, except?: string | null) {
+    this.connections.forEach((post, id) => {
+      if (id !== except) post(message);
+    });
+  }
+}
+
+// ======================================================== //
+//                          传输                            //
+// ======================================================== //
+export interface CollabTransport {
+  send(message: string): void;
+  onMessage(listener: (message: string) => void): void;
+  // 连接失败或断开时调用一次, 主动 close 后不再调用
+  onClose(listener: (error: Error) => void): void;
+  close(): void;
+}
+
+// 同一进程中连接 authority, 消息异步送达以模拟网络
+export const localTransport = (authority: CollabAuthority): CollabTransport => {
+  const listeners: ((message: string) => void)[] = [];
+  const connection = authority.connect((message) =>
+    setTimeout(() => listeners.forEach((listener) => listener(message))),
+  );
+  return {
+    send: (message) => setTimeout(() => connection.receive(message)),
+    onMessage: (listener) => listeners.push(listener),
+    // 同一进程中的连接不会断开
+    onClose: () => undefined,
+    close: () => setTimeout(connection.close),
+  };
+};
+
+// 连接建立前的消息先缓存
+export const webSocketTransport = (url: string): CollabTransport => {
+  const socket = new WebSocket(url);
+  const queue: string[] = [];
+  const closeListeners: ((error: Error) => void)[] = [];
+  let closed = false;
+  // error 之后总会有 close, 只通知一次
+  const fail = (error: Error) => {
+    if (closed) return;
+    closed = true;
+    closeListeners.forEach((listener) => listener(error));
+  };
+  socket.addEventListener('open', () => queue.splice(0).forEach((m) => socket.send(m)));
+  socket.addEventListener('error', () => fail(new Error(`WebSocket error on ${url}`)));
+  socket.addEventListener('close', (e) =>
+    fail(new Error(`WebSocket ${url} closed with code ${e.code}`)),
+  );
+  return {
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(message);
+      else queue.push(message);
+    },
+    onMessage: (listener) =>
+      socket.addEventListener('message', (e) => listener(String(e.data))),
+    onClose: (listener) => closeListeners.push(listener),
+    close: () => {
+      closed = true;
+      socket.close();
+    },
+  };
+};
+
+// ======================================================== //
+//                         客户端                           //
+// ======================================================== //
+interface CollabSyncState {
+  presence: Presence[];
+}
+
+// 创建编辑器前收到的消息先缓存, 编辑器创建后再处理
+class Inbox {
+  messages: ServerMessage[] = [];
+  listener: ((message: ServerMessage) => void) | null = null;
+
+  push(message: ServerMessage) {
+    if (this.listener) this.listener(message);
+    else this.messages.push(message);
+  }
+
+  listen(listener: (message: ServerMessage) => void) {
+    this.listener = listener;
+    this.messages.splice(0).forEach(listener);
+  }
+}
+
+export const collabSyncKey = new PluginKey<CollabSyncState>('collabSync');
+
+// 来自其他客户端的改动, 其他插件据此跳过只应由作者生成的修改 (如标题 id)
+export const isRemoteTransaction = (tr: Transaction) => {
+  const meta = tr.getMeta(collabSyncKey);
+  return !!(meta && meta.remote);
+};
+
+// 本地未确认的 steps, 用于把 authority 版本的位置映射到本地文档
+const unconfirmedMapping = (state: EditorState) => {
+  const sendable = sendableSteps(state);
+  return new Mapping(sendable ? sendable.steps.map((step) => step.getMap()) : []);
+};
+
+class CollabSyncView {
+  view: EditorView;
+  transport: CollabTransport;
+  // 已发送且未收到回应的 steps 的版本
+  pending: number | null = null;
+  // 在这个版本上提交的 steps 被 authority 拒绝, 收到新的 steps 前不再提交
+  rejected: number | null = null;
+  sentSelection = '';
+
+  constructor(view: EditorView, transport: CollabTransport, inbox: Inbox) {
+    this.view = view;
+    this.transport = transport;
+    this.update(view);
+    inbox.listen((message) => {
+      if (!this.view.isDestroyed) this.receive(message);
+    });
+  }
+
+  post(message: ClientMessage) {
+    this.transport.send(JSON.stringify(message));
+  }
+
+  receive(message: ServerMessage) {
+    const { state } = this.view;
+    const version = getVersion(state);
+    switch (message.type) {
+      case 'steps': {
+        this.pending = null;
+        if (message.version > version) {
+          this.post({ type: 'pull', version });
+          return;
+        }
+        // 重复收到的部分跳过
+        const skip = version - message.version;
+        const steps = message.steps
+          .slice(skip)
+          .map((json) => Step.fromJSON(state.schema, json));
+        if (!steps.length) return this.update(this.view);
+        const tr = receiveTransaction(state, steps, message.clientIDs.slice(skip), {
+          mapSelectionBackward: true,
+        });
+        this.view.dispatch(tr.setMeta(collabSyncKey, { remote: true }));
+        break;
+      }
+      case 'rejected':
+        // 已经 rebase 并重新提交过, 是之前那次提交的回应
+        if (message.version !== this.pending) return;
+        this.pending = null;
+        // authority 有更新的版本时先拉取, 收到后 rebase 再提交
+        if (message.latest > message.version) this.post({ type: 'pull', version });
+        // 版本相同说明 steps 本身无法应用, 文档已经不一致, 不再重复提交
+        else {
+          console.error('[collab] steps rejected at version', message.version);
+          this.rejected = message.version;
+        }
+        break;
+      case 'presence':
+        // 版本对不上说明还有 steps 没收到, 等下一次更新
+        if (message.version !== version) return;
+        this.view.dispatch(
+          state.tr.setMeta(collabSyncKey, {
+            presence: mapPresence(message.presence, unconfirmedMapping(state)),
+          }),
+        );
+        break;
+      case 'leave':
+        this.view.dispatch(state.tr.setMeta(collabSyncKey, { leave: message.clientID }));
+        break;
+    }
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    const { state } = view;
+    const sendable = sendableSteps(state);
+    if (sendable) {
+      if (this.pending === sendable.version || this.rejected === sendable.version) return;
+      this.pending = sendable.version;
+      this.post({
+        type: 'steps',
+        version: sendable.version,
+        steps: sendable.steps.map((step) => step.toJSON()),
+      });
+      return;
+    }
+    // 没有未确认的 steps 时, 本地位置与 authority 的版本一致
+    const version = getVersion(state);
+    const { anchor, head } = state.selection;
+    const key = `${version}:${anchor}:${head}`;
+    if (key === this.sentSelection) return;
+    this.sentSelection = key;
+    this.post({ type: 'selection', version, anchor, head });
+  }
+
+  destroy() {
+    this.transport.close();
+  }
+}
+
+const cursorWidget = (user: CollabUser) => () => {
+  const cursor = createElement('span', 'yl-collab-cursor');
+  cursor.style.borderColor = user.color;
+  const label = cursor.appendChild(createElement('span', 'yl-collab-cursor-label'));
+  label.textContent = user.name;
+  label.style.background = user.color;
+  return cursor;
+};
+
+const collabSyncPlugin = (
+  transport: CollabTransport,
+  presence: Presence[],
+  inbox: Inbox,
+) => {
+  return new Plugin<CollabSyncState>({
+    key: collabSyncKey,
+    state: {
+      init() {
+        return { presence };
+      },
+      apply(tr, prev) {
+        const meta = tr.getMeta(collabSyncKey);
+        let next = prev.presence;
+        if (tr.docChanged) next = next.map((item) => mapPresence(item, tr.mapping));
+        if (meta && meta.presence)
+          next = next
+            .filter((item) => item.clientID !== meta.presence.clientID)
+            .concat(meta.presence);
+        if (meta && meta.leave)
+          next = next.filter((item) => item.clientID !== meta.leave);
+        return next === prev.presence ? prev : { presence: next };
+      },
+    },
+    view: (view) => new CollabSyncView(view, transport, inbox),
+    props: {
+      decorations(state) {
+        const pluginState = collabSyncKey.getState(state);
+        if (!pluginState || !pluginState.presence.length) return null;
+        const size = state.doc.content.size;
+        const decorations: Decoration[] = [];
+        pluginState.presence.forEach(({ clientID, user, anchor, head }) => {
+          const from = Math.min(Math.max(Math.min(anchor, head), 0), size);
+          const to = Math.min(Math.max(Math.max(anchor, head), 0), size);
+          if (from < to)
+            decorations.push(
+              Decoration.inline(from, to, {
+                class: 'yl-collab-selection',
+                style: `background-color: ${user.color}33`,
+              }),
+            );
+          decorations.push(
+            Decoration.widget(Math.min(Math.max(head, 0), size), cursorWidget(user), {
+              key: `${clientID}:${user.name}:${user.color}`,
+              side: -1,
+            }),
+          );
+        });
+        return DecorationSet.create(state.doc, decorations);
+      },
+    },
+  });
+};
+
+// 加入协同编辑, 返回 authority 上的文档和需要加到编辑器中的插件
+// 收到文档前连接失败或断开时 reject
+export const connectCollab = (
+  transport: CollabTransport,
+  schema: Schema,
+  user: CollabUser,
+): Promise<{ doc: Node; plugins: Plugin[] }> => {
+  const clientID = `${user.id}-${randomID()}`;
+  const inbox = new Inbox();
+  return new Promise((resolve, reject) => {
+    let joined = false;
+    transport.onClose((error) => {
+      if (!joined) reject(error);
+      else console.error('[collab] disconnected:', error.message);
+    });
+    transport.onMessage((raw) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(raw);
+      } catch (e) {
+        console.warn('[collab] invalid message:', raw);
+        return;
+      }
+      if (joined) {
+        inbox.push(message);
+        return;
+      }
+      if (message.type !== 'init') return;
+      joined = true;
+      resolve({
+        doc: schema.nodeFromJSON(message.doc),
+        plugins: [
+          collab({ version: message.version, clientID }),
+          collabSyncPlugin(transport, message.presence, inbox),
+        ],
+      });
+    });
+    transport.send(JSON.stringify({ type: 'join', clientID, user } as ClientMessage));
+  });
+};
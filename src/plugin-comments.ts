@@ -0,0 +1,531 @@
+import { MenuItem } from 'prosemirror-menu';
+import { type Node } from 'prosemirror-model';
+import { type EditorState, type Transaction, Plugin, PluginKey } from 'prosemirror-state';
+import { type EditorView, Decoration, DecorationSet } from 'prosemirror-view';
+
+import { prompt, TextAreaField } from './basic-prompt';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export interface CommentMessage {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+// 锚点位置保存在 decoration 中, 随每个事务映射, 不写入文档
+export interface CommentThread {
+  id: string;
+  messages: CommentMessage[];
+  resolved: boolean;
+  // 锚定的文字被全部删除, 撤销删除后恢复锚点
+  orphaned: boolean;
+}
+
+// 与文档一起保存的格式, 失效的评论没有位置
+export interface SerializedThread extends CommentThread {
+  from: number | null;
+  to: number | null;
+}
+
+// 锚定的文字被删除的位置, 撤销删除后据此恢复锚点
+interface DeletedAnchor {
+  id: string;
+  // 删除处在当前文档中的位置
+  pos: number;
+  // 锚点相对删除范围起点的偏移
+  from: number;
+  to: number;
+  text: string;
+}
+
+interface CommentsState {
+  author: string;
+  threads: CommentThread[];
+  anchors: DecorationSet;
+  deleted: DeletedAnchor[];
+  active: string | null;
+}
+
+type CommentsMeta =
+  | { add: { thread: CommentThread; from: number; to: number } }
+  | { update: CommentThread }
+  | { remove: string }
+  | { reanchor: { id: string; from: number; to: number } }
+  | { active: string | null };
+
+export const commentsKey = new PluginKey<CommentsState>('comments');
+
+const randomID = () => Math.random().toString(36).slice(2, 10);
+
+const createMessage = (author: string, text: string): CommentMessage => ({
+  id: randomID(),
+  author,
+  text,
+  createdAt: Date.now(),
+});
+
+// 行内叶子节点在比较文字时的占位符
+const LEAF_TEXT = '\ufffc';
+
+const createAnchor = (id: string, from: number, to: number) =>
+  Decoration.inline(from, to, { class: 'yl-comment-anchor' }, { threadId: id });
+
+const getComments = (state: EditorState) => commentsKey.getState(state);
+
+const setMeta = (state: EditorState, meta: CommentsMeta) =>
+  state.tr.setMeta(commentsKey, meta);
+
+// 评论当前锚定的范围, 失效时返回 null
+export const findCommentRange = (state: EditorState, id: string) => {
+  const comments = getComments(state);
+  if (!comments) return null;
+  const [anchor] = comments.anchors.find(
+    undefined,
+    undefined,
+    (spec) => spec.threadId === id,
+  );
+  return anchor ? { from: anchor.from, to: anchor.to } : null;
+};
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+// 给选中的文字添加评论
+export const addComment = (text: string): Command => {
+  return (state, dispatch) => {
+    const comments = getComments(state);
+    const { from, to, empty } = state.selection;
+    if (!comments || empty) return false;
+    if (dispatch) {
+      const thread: CommentThread = {
+        id: randomID(),
+        messages: [createMessage(comments.author, text)],
+        resolved: false,
+        orphaned: false,
+      };
+      dispatch(setMeta(state, { add: { thread, from, to } }));
+    }
+    return true;
+  };
+};
+
+const updateThread = (
+  id: string,
+  update: (thread: CommentThread, author: string) => CommentThread,
+): Command => {
+  return (state, dispatch) => {
+    const comments = getComments(state);
+    const thread = comments && comments.threads.find((item) => item.id === id);
+    if (!comments || !thread) return false;
+    if (dispatch) dispatch(setMeta(state, { update: update(thread, comments.author) }));
+    return true;
+  };
+};
+
+export const replyComment = (id: string, text: string) =>
+  updateThread(id, (thread, author) => ({
+    ...thread,
+    messages: [...thread.messages, createMessage(author, text)],
+  }));
+
+export const resolveComment = (id: string, resolved = true) =>
+  updateThread(id, (thread) => ({ ...thread, resolved }));
+
+export const deleteComment = (id: string): Command => {
+  return (state, dispatch) => {
+    const comments = getComments(state);
+    if (!comments || !comments.threads.some((thread) => thread.id === id)) return false;
+    if (dispatch) dispatch(setMeta(state, { remove: id }));
+    return true;
+  };
+};
+
+// 把失效的评论重新锚定到选中的文字
+export const reanchorComment = (id: string): Command => {
+  return (state, dispatch) => {
+    const comments = getComments(state);
+    const thread = comments && comments.threads.find((item) => item.id === id);
+    const { from, to, empty } = state.selection;
+    if (!thread || !thread.orphaned || empty) return false;
+    if (dispatch) dispatch(setMeta(state, { reanchor: { id, from, to } }));
+    return true;
+  };
+};
+
+export const setActiveComment = (id: string | null): Command => {
+  return (state, dispatch) => {
+    if (!getComments(state)) return false;
+    if (dispatch) dispatch(setMeta(state, { active: id }));
+    return true;
+  };
+};
+
+// 与文档一起保存: { doc: doc.toJSON(), comments: serializeComments(state) }
+export const serializeComments = (state: EditorState): SerializedThread[] => {
+  const comments = getComments(state);
+  if (!comments) return [];
+  return comments.threads.map((thread) => {
+    const range = findCommentRange(state, thread.id);
+    return { ...thread, from: range && range.from, to: range && range.to };
+  });
+};
+
+export const commentMenuItem = () => {
+  return new MenuItem({
+    title: '添加评论',
+    label: '评论',
+    enable: (state) => addComment('')(state),
+    async run(_, __, view: EditorView) {
+      const values = await prompt({
+        title: '添加评论',
+        fields: { text: new TextAreaField({ label: '评论', required: true }) },
+      });
+      if (!values) return;
+      addComment(values.text)(view.state, view.dispatch);
+      view.focus();
+    },
+  });
+};
+
+// ======================================================== //
+//                          状态                            //
+// ======================================================== //
+const initState = (doc: Node, author: string, threads: SerializedThread[]) => {
+  const anchors: Decoration[] = [];
+  const size = doc.content.size;
+  const list = threads.map(({ from, to, ...thread }) => {
+    const valid = from != null && to != null && from < to && to <= size;
+    if (valid) anchors.push(createAnchor(thread.id, from as number, to as number));
+    return { ...thread, orphaned: !valid };
+  });
+  return {
+    author,
+    threads: list,
+    anchors: DecorationSet.create(doc, anchors),
+    deleted: [],
+    active: null,
+  };
+};
+
+const applyMeta = (meta: CommentsMeta, prev: CommentsState, doc: Node): CommentsState => {
+  let { threads, anchors, deleted, active } = prev;
+  if ('add' in meta) {
+    const { thread, from, to } = meta.add;
+    threads = [...threads, thread];
+    anchors = anchors.add(doc, [createAnchor(thread.id, from, to)]);
+    active = thread.id;
+  } else if ('update' in meta) {
+    const { update } = meta;
+    threads = threads.map((thread) => (thread.id === update.id ? update : thread));
+  } else if ('remove' in meta) {
+    const { remove } = meta;
+    threads = threads.filter((thread) => thread.id !== remove);
+    anchors = anchors.remove(
+      anchors.find(undefined, undefined, (spec) => spec.threadId === remove),
+    );
+    deleted = deleted.filter((item) => item.id !== remove);
+    if (active === remove) active = null;
+  } else if ('reanchor' in meta) {
+    const { id, from, to } = meta.reanchor;
+    threads = threads.map((thread) =>
+      thread.id === id ? { ...thread, orphaned: false } : thread,
+    );
+    anchors = anchors.add(doc, [createAnchor(id, from, to)]);
+    deleted = deleted.filter((item) => item.id !== id);
+  } else {
+    active = meta.active;
+  }
+  return { ...prev, threads, anchors, deleted, active };
+};
+
+// 找到删除锚点的那一步, 记下删除范围在新文档中的位置和锚点在其中的偏移
+const findDeletion = (
+  id: string,
+  from: number,
+  to: number,
+  tr: Transaction,
+): DeletedAnchor | null => {
+  const { maps } = tr.mapping;
+  for (let i = 0; i < maps.length; i++) {
+    let deleted: DeletedAnchor | null = null;
+    maps[i].forEach((oldStart, oldEnd, newStart) => {
+      if (deleted || oldStart > from || to > oldEnd) return;
+      const text = tr.docs[i].textBetween(from, to, '\n', LEAF_TEXT);
+      deleted = { id, pos: newStart, from: from - oldStart, to: to - oldStart, text };
+    });
+    if (deleted) {
+      const found: DeletedAnchor = deleted;
+      return { ...found, pos: tr.mapping.slice(i + 1).map(found.pos, -1) };
+    }
+    // 与 inline decoration 的映射方式一致
+    from = maps[i].map(from, 1);
+    to = maps[i].map(to, -1);
+    if (from >= to) return null;
+  }
+  return null;
+};
+
+// 撤销重新插入了被删除的文字时恢复锚点
+const restoreDeleted = (item: DeletedAnchor, tr: Transaction) => {
+  const start = tr.mapping.map(item.pos, -1);
+  const from = start + item.from;
+  const to = start + item.to;
+  if (to > tr.doc.content.size) return null;
+  if (tr.doc.textBetween(from, to, '\n', LEAF_TEXT) !== item.text) return null;
+  return createAnchor(item.id, from, to);
+};
+
+// 映射锚点, 锚点消失 (文字被全部删除) 的评论标记为失效
+const mapAnchors = (prev: CommentsState, tr: Transaction): CommentsState => {
+  const anchors = prev.anchors.map(tr.mapping, tr.doc);
+  const anchored = new Set(anchors.find().map((anchor) => anchor.spec.threadId));
+  const deleted: DeletedAnchor[] = [];
+  const restored: Decoration[] = [];
+
+  const undo = !!tr.getMeta('history$');
+  prev.deleted.forEach((item) => {
+    const anchor = undo && restoreDeleted(item, tr);
+    if (anchor) restored.push(anchor);
+    else deleted.push({ ...item, pos: tr.mapping.map(item.pos, -1) });
+  });
+  prev.anchors.find().forEach((anchor) => {
+    const { threadId } = anchor.spec;
+    if (anchored.has(threadId)) return;
+    const item = findDeletion(threadId, anchor.from, anchor.to, tr);
+    if (item) deleted.push(item);
+  });
+  restored.forEach((anchor) => anchored.add(anchor.spec.threadId));
+
+  return {
+    ...prev,
+    anchors: restored.length ? anchors.add(tr.doc, restored) : anchors,
+    deleted,
+    threads: prev.threads.map((thread) => {
+      const orphaned = !anchored.has(thread.id);
+      return thread.orphaned === orphaned ? thread : { ...thread, orphaned };
+    }),
+  };
+};
+
+// ======================================================== //
+//                          侧栏                            //
+// ======================================================== //
+// 卡片之间的最小间距
+const GAP = 8;
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+class CommentsSidebar {
+  dom: HTMLElement;
+  view: EditorView;
+  orphanTitle: HTMLElement;
+  // 卡片按评论缓存, 评论没有变化时保留 (包括回复框中未提交的内容)
+  cards = new Map<string, { thread: CommentThread; dom: HTMLElement }>();
+  onResize: () => void;
+
+  constructor(view: EditorView) {
+    this.view = view;
+    this.dom = document.body.appendChild(createElement('div', 'yl-comments-sidebar'));
+    this.orphanTitle = createElement('div', 'yl-comments-orphan-title', '已失效的评论');
+    this.onResize = () => this.layout();
+    window.addEventListener('resize', this.onResize);
+    this.update(view);
+  }
+
+  run(command: Command) {
+    command(this.view.state, this.view.dispatch);
+  }
+
+  renderCard(thread: CommentThread) {
+    const card = createElement('div', 'yl-comment-card');
+    card.classList.toggle('yl-comment-card-resolved', thread.resolved);
+    card.addEventListener('mousedown', () => this.run(setActiveComment(thread.id)));
+
+    const range = findCommentRange(this.view.state, thread.id);
+    const quote = card.appendChild(createElement('div', 'yl-comment-quote'));
+    quote.textContent = range
+      ? this.view.state.doc.textBetween(range.from, range.to, ' ', '￼')
+      : '原文已删除';
+
+    thread.messages.forEach(({ author, text, createdAt }) => {
+      const message = card.appendChild(createElement('div', 'yl-comment-message'));
+      const meta = message.appendChild(createElement('div', 'yl-comment-meta'));
+      meta.textContent = `${author} · ${formatTime(createdAt)}`;
+      message.appendChild(createElement('div', 'yl-comment-text')).textContent = text;
+    });
+
+    const actions = card.appendChild(createElement('div', 'yl-comment-actions'));
+    const action = (label: string, command: Command) => {
+      const button = actions.appendChild(
+        createElement('button', 'yl-comment-button', label),
+      );
+      (button as HTMLButtonElement).type = 'button';
+      button.addEventListener('click', () => this.run(command));
+    };
+
+    if (!thread.resolved) {
+      const reply = card.insertBefore(document.createElement('textarea'), actions);
+      reply.className = 'yl-comment-reply';
+      reply.placeholder = '回复';
+      reply.setAttribute('aria-label', '回复');
+      reply.rows = 1;
+      const submit = () => {
+        const text = reply.value.trim();
+        if (text) this.run(replyComment(thread.id, text));
+      };
+      reply.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault();
+          submit();
+        }
+      });
+      const button = actions.appendChild(
+        createElement('button', 'yl-comment-button', '回复'),
+      );
+      (button as HTMLButtonElement).type = 'button';
+      button.addEventListener('click', submit);
+    }
+    action(
+      thread.resolved ? '重新打开' : '解决',
+      resolveComment(thread.id, !thread.resolved),
+    );
+    if (thread.orphaned) action('重新锚定到选区', reanchorComment(thread.id));
+    action('删除', deleteComment(thread.id));
+    return card;
+  }
+
+  update(view: EditorView, prevState?: EditorState) {
+    this.view = view;
+    const comments = getComments(view.state);
+    if (!comments) return;
+    const prev = prevState && getComments(prevState);
+    if (prev && prev.threads === comments.threads && prev.active === comments.active) {
+      if (view.state.doc !== prevState?.doc) this.layout();
+      return;
+    }
+
+    const cards = new Map<string, { thread: CommentThread; dom: HTMLElement }>();
+    comments.threads.forEach((thread) => {
+      const cached = this.cards.get(thread.id);
+      const card =
+        cached && cached.thread === thread
+          ? cached
+          : { thread, dom: this.renderCard(thread) };
+      card.dom.classList.toggle('yl-comment-card-active', thread.id === comments.active);
+      cards.set(thread.id, card);
+    });
+    this.cards.forEach((card, id) => {
+      if (!cards.has(id)) card.dom.remove();
+    });
+    this.cards = cards;
+    this.layout();
+  }
+
+  // 卡片与锚点对齐, 重叠时依次下移; 失效的评论排在最后
+  layout() {
+    const { view } = this;
+    const box = view.dom.getBoundingClientRect();
+    this.dom.style.top = box.top + window.scrollY + 'px';
+    this.dom.style.left = box.right + window.scrollX + 16 + 'px';
+
+    const anchored: { top: number; dom: HTMLElement }[] = [];
+    const orphaned: HTMLElement[] = [];
+    this.cards.forEach(({ thread, dom }) => {
+      const range = findCommentRange(view.state, thread.id);
+      if (!dom.parentNode) this.dom.appendChild(dom);
+      if (!range) {
+        orphaned.push(dom);
+        return;
+      }
+      // 锚定的文字可能已被修改
+      const quote = dom.querySelector('.yl-comment-quote');
+      if (quote)
+        quote.textContent = view.state.doc.textBetween(range.from, range.to, ' ', '￼');
+      anchored.push({ top: view.coordsAtPos(range.from).top - box.top, dom });
+    });
+
+    let bottom = -GAP;
+    anchored
+      .sort((a, b) => a.top - b.top)
+      .forEach(({ top, dom }) => {
+        const y = Math.max(top, bottom + GAP);
+        dom.style.top = y + 'px';
+        bottom = y + dom.offsetHeight;
+      });
+
+    if (!orphaned.length) {
+      this.orphanTitle.remove();
+      return;
+    }
+    bottom += GAP * 2;
+    this.dom.appendChild(this.orphanTitle);
+    this.orphanTitle.style.top = bottom + 'px';
+    bottom += this.orphanTitle.offsetHeight;
+    orphaned.forEach((dom) => {
+      dom.style.top = bottom + GAP + 'px';
+      bottom += GAP + dom.offsetHeight;
+    });
+  }
+
+  destroy() {
+    window.removeEventListener('resize', this.onResize);
+    this.dom.remove();
+  }
+}
+
+export const commentsPlugin = (options: {
+  author: string;
+  threads?: SerializedThread[];
+}) => {
+  return new Plugin<CommentsState>({
+    key: commentsKey,
+    state: {
+      init(_, { doc }) {
+        return initState(doc, options.author, options.threads || []);
+      },
+      apply(tr, prev) {
+        const meta: CommentsMeta | undefined = tr.getMeta(commentsKey);
+        let next = prev;
+        if (tr.docChanged) next = mapAnchors(prev, tr);
+        if (meta) next = applyMeta(meta, next, tr.doc);
+        return next;
+      },
+    },
+    view: (view) => new CommentsSidebar(view),
+    props: {
+      // 已解决的评论不高亮
+      decorations(state) {
+        const comments = getComments(state);
+        if (!comments) return null;
+        const resolved = new Set(
+          comments.threads.filter((thread) => thread.resolved).map((thread) => thread.id),
+        );
+        const decorations = comments.anchors
+          .find(undefined, undefined, (spec) => !resolved.has(spec.threadId))
+          .map((anchor) =>
+            anchor.spec.threadId === comments.active
+              ? Decoration.inline(
+                  anchor.from,
+                  anchor.to,
+                  { class: 'yl-comment-anchor yl-comment-anchor-active' },
+                  anchor.spec,
+                )
+              : anchor,
+          );
+        return DecorationSet.create(state.doc, decorations);
+      },
+      // 点击锚定的文字时激活对应的评论
+      handleClick(view, pos) {
+        const comments = getComments(view.state);
+        if (!comments) return false;
+        const [anchor] = comments.anchors.find(pos, pos);
+        const id = anchor ? anchor.spec.threadId : null;
+        if (id !== comments.active) setActiveComment(id)(view.state, view.dispatch);
+        return false;
+      },
+    },
+  });
+};
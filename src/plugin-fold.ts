@@ -0,0 +1,165 @@
+import { type Node } from 'prosemirror-model';
+import {
+  type EditorState,
+  type Transaction,
+  Plugin,
+  PluginKey,
+  TextSelection,
+} from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+
+import { createElement } from './utils';
+
+interface FoldState {
+  // 已折叠标题的位置 (只处理 doc 的一代子节点)
+  folded: number[];
+}
+
+export const foldPluginKey = new PluginKey<FoldState>('fold');
+
+const isHeadingAt = (doc: Node, pos: number) => {
+  if (pos < 0 || pos >= doc.content.size) return false;
+  const $pos = doc.resolve(pos);
+  const node = doc.nodeAt(pos);
+  return $pos.depth === 0 && !!node && node.type.name === 'heading';
+};
+
+// 标题所辖区域: 直到下一个同级或更高级标题为止
+const sectionRange = (doc: Node, pos: number) => {
+  const heading = doc.nodeAt(pos) as Node;
+  const start = pos + heading.nodeSize;
+  let end = start;
+  for (let i = doc.resolve(pos).index(0) + 1; i < doc.childCount; i++) {
+    const child = doc.child(i);
+    if (child.type.name === 'heading' && child.attrs.level <= heading.attrs.level) break;
+    end += child.nodeSize;
+  }
+  return { heading, start, end };
+};
+
+export const getFolded = (state: EditorState) => {
+  const pluginState = foldPluginKey.getState(state);
+  return pluginState ? pluginState.folded : [];
+};
+
+// 已折叠标题的 id, 供目录展示折叠状态
+export const getFoldedIds = (state: EditorState) =>
+  getFolded(state).map((pos) => (state.doc.nodeAt(pos) as Node).attrs.id as string);
+
+// 折叠 / 展开 pos 处的标题
+export const toggleFold = (pos: number) => {
+  return (state: EditorState, dispatch?: (tr: Transaction) => void) => {
+    if (!isHeadingAt(state.doc, pos)) return false;
+    const { heading, start, end } = sectionRange(state.doc, pos);
+    if (start === end) return false;
+
+    if (dispatch) {
+      const tr = state.tr.setMeta(foldPluginKey, { toggle: pos });
+      const { from, to } = state.selection;
+      // 光标在被折叠区域内时移到标题末尾, 否则会被立即展开
+      if (!getFolded(state).includes(pos) && from < end && to > start)
+        tr.setSelection(TextSelection.create(tr.doc, pos + heading.nodeSize - 1));
+      dispatch(tr);
+    }
+    return true;
+  };
+};
+
+export const foldPlugin = () => {
+  return new Plugin<FoldState>({
+    key: foldPluginKey,
+    state: {
+      init() {
+        return { folded: [] };
+      },
+      apply(tr, prev) {
+        let folded = prev.folded;
+        if (tr.docChanged)
+          folded = folded
+            .map((pos) => tr.mapping.mapResult(pos, 1))
+            .filter((result) => !result.deleted)
+            .map((result) => result.pos);
+
+        const meta = tr.getMeta(foldPluginKey);
+        if (meta && meta.toggle != null)
+          folded = folded.includes(meta.toggle)
+            ? folded.filter((pos) => pos !== meta.toggle)
+            : folded.concat(meta.toggle);
+        if (meta && meta.unfold)
+          folded = folded.filter((pos) => !meta.unfold.includes(pos));
+
+        folded = folded.filter(
+          (pos, index) => folded.indexOf(pos) === index && isHeadingAt(tr.doc, pos),
+        );
+        return { folded };
+      },
+    },
+    // 输入或搜索使选区落进折叠区域时自动展开
+    appendTransaction(trs, oldState, newState) {
+      if (!trs.some((tr) => tr.docChanged || tr.selectionSet)) return null;
+      const { from, to } = newState.selection;
+      const unfold = getFolded(newState).filter((pos) => {
+        const { start, end } = sectionRange(newState.doc, pos);
+        return from < end && to > start;
+      });
+      return unfold.length ? newState.tr.setMeta(foldPluginKey, { unfold }) : null;
+    },
+    props: {
+      decorations(state) {
+        const { doc } = state;
+        const folded = getFolded(state);
+        const decorations: Decoration[] = [];
+
+        doc.forEach((node, pos) => {
+          if (node.type.name !== 'heading') return;
+          const { start, end } = sectionRange(doc, pos);
+          if (start === end) return;
+
+          const isFolded = folded.includes(pos);
+          // 标题左侧的折叠按钮
+          decorations.push(
+            Decoration.widget(
+              pos + 1,
+              (view, getPos) => {
+                const toggle = createElement(
+                  'span',
+                  'yl-fold-toggle',
+                  isFolded ? '▸' : '▾',
+                );
+                if (isFolded) toggle.classList.add('yl-fold-toggle-folded');
+                toggle.contentEditable = 'false';
+                toggle.addEventListener('mousedown', (e) => {
+                  e.preventDefault();
+                  const widgetPos = getPos();
+                  if (widgetPos != null)
+                    toggleFold(widgetPos - 1)(view.state, view.dispatch);
+                });
+                return toggle;
+              },
+              {
+                side: -1,
+                key: `fold-toggle-${isFolded}`,
+                ignoreSelection: true,
+                stopEvent: (e) => e.type === 'mousedown',
+              },
+            ),
+          );
+          if (!isFolded) return;
+
+          decorations.push(Decoration.node(pos, start, { class: 'yl-fold-collapsed' }));
+          for (let childPos = start; childPos < end; ) {
+            const child = doc.nodeAt(childPos) as Node;
+            decorations.push(
+              Decoration.node(childPos, childPos + child.nodeSize, {
+                class: 'yl-fold-hidden',
+              }),
+            );
+            childPos += child.nodeSize;
+          }
+        });
+
+        return DecorationSet.create(doc, decorations);
+      },
+    },
+  });
+};
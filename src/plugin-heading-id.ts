@@ -0,0 +1,89 @@
+import { type Node } from 'prosemirror-model';
+import { type EditorState, type Transaction, Plugin, PluginKey } from 'prosemirror-state';
+import { Mapping } from 'prosemirror-transform';
+
+import { isRemoteTransaction } from './plugin-collab';
+import { slugify } from './utils';
+
+export const headingIdPluginKey = new PluginKey('headingId');
+
+// 没有文字的标题使用的 slug
+const FALLBACK_SLUG = 'heading';
+
+const uniqueSlug = (text: string, taken: Set<string>) => {
+  const slug = slugify(text) || FALLBACK_SLUG;
+  let id = slug;
+  for (let i = 1; taken.has(id); i++) id = `${slug}-${i}`;
+  taken.add(id);
+  return id;
+};
+
+/**
+ * 检查所有标题, 为缺少 id 或 id 重复的标题分配唯一 slug
+ * - 按文档顺序, 重复 id 由先出现的标题保留
+ * - 被 setBlockType 等改动清掉的 id 会从旧文档的同一位置找回
+ * - 光标所在的新标题等离开后再生成, 避免用刚输入的第一个字做 slug
+ */
+export const assignHeadingIds = (
+  state: EditorState,
+  prev?: { doc: Node; mapping: Mapping },
+): Transaction | null => {
+  const { doc, selection } = state;
+  const headings: { node: Node; pos: number }[] = [];
+  const taken = new Set<string>();
+  const pending: { node: Node; pos: number }[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'heading') return !node.isTextblock;
+    headings.push({ node, pos });
+    return false;
+  });
+  headings.forEach((heading) => {
+    const { id } = heading.node.attrs;
+    if (id && !taken.has(id)) taken.add(id);
+    else pending.push(heading);
+  });
+  if (!pending.length) return null;
+
+  const tr = state.tr;
+  const inverted = prev && prev.mapping.invert();
+  pending.forEach(({ node, pos }) => {
+    let id: string | null = null;
+
+    if (!node.attrs.id && prev && inverted) {
+      const oldNode = prev.doc.nodeAt(inverted.map(pos, 1));
+      const oldId = oldNode && oldNode.type === node.type && oldNode.attrs.id;
+      if (oldId && !taken.has(oldId)) {
+        id = oldId;
+        taken.add(oldId);
+      }
+    }
+
+    const { $head } = selection;
+    const editing = !!prev && $head.pos > pos && $head.pos < pos + node.nodeSize;
+    if (!id && !editing) id = uniqueSlug(node.textContent, taken);
+    if (id !== node.attrs.id) tr.setNodeAttribute(pos, 'id', id);
+  });
+
+  return tr.docChanged ? tr : null;
+};
+
+export const headingIdPlugin = () => {
+  return new Plugin({
+    key: headingIdPluginKey,
+    appendTransaction(trs, oldState, newState) {
+      if (!trs.some((tr) => tr.docChanged || tr.selectionSet)) return null;
+      // 协同编辑时远程标题的 id 由作者的客户端分配, 避免各端生成不同的 id
+      if (trs.every(isRemoteTransaction)) return null;
+      const mapping = new Mapping();
+      trs.forEach((tr) => mapping.appendMapping(tr.mapping));
+      return assignHeadingIds(newState, { doc: oldState.doc, mapping });
+    },
+    view(editorView) {
+      // 初始文档里的标题也要分配 id
+      const tr = assignHeadingIds(editorView.state);
+      if (tr) editorView.dispatch(tr.setMeta('addToHistory', false));
+      return {};
+    },
+  });
+};
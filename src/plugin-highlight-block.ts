@@ -0,0 +1,255 @@
+import { type Node } from 'prosemirror-model';
+import {
+  type EditorState,
+  type Transaction,
+  NodeSelection,
+  Plugin,
+  PluginKey,
+} from 'prosemirror-state';
+import { findWrapping, liftTarget } from 'prosemirror-transform';
+import {
+  type EditorView,
+  type NodeView,
+  type ViewMutationRecord,
+} from 'prosemirror-view';
+
+import { prompt, SelectField } from './basic-prompt';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+// 预设主题
+export const highlightThemes = [
+  { name: 'yellow', label: '黄色', backgroundColor: '#fff7e6', borderColor: '#ffdfa3' },
+  { name: 'blue', label: '蓝色', backgroundColor: '#e6f7ff', borderColor: '#91d5ff' },
+  { name: 'green', label: '绿色', backgroundColor: '#f6ffed', borderColor: '#b7eb8f' },
+  { name: 'red', label: '红色', backgroundColor: '#fff1f0', borderColor: '#ffa39e' },
+  { name: 'purple', label: '紫色', backgroundColor: '#f9f0ff', borderColor: '#d3adf7' },
+  { name: 'gray', label: '灰色', backgroundColor: '#fafafa', borderColor: '#d9d9d9' },
+];
+
+// 可选的 emoji
+export const highlightEmojis = ['💡', '📌', '⚠️', '✅', '❌', '❓', '📝', '🔥'];
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+// 选区所在的高亮块
+export const findHighlightBlock = (state: EditorState) => {
+  const { selection } = state;
+  if (selection instanceof NodeSelection && selection.node.type.name === 'highlightBlock')
+    return { node: selection.node, pos: selection.from };
+
+  const { $from } = selection;
+  for (let depth = $from.depth; depth > 0; depth--) {
+    const node = $from.node(depth);
+    if (node.type.name === 'highlightBlock') return { node, pos: $from.before(depth) };
+  }
+  return null;
+};
+
+const highlightBlockAt = (doc: Node, pos: number) => {
+  const node = doc.nodeAt(pos);
+  return node && node.type.name === 'highlightBlock' ? node : null;
+};
+
+// 取消高亮: 把内容提到高亮块外面, 空的高亮块直接删除
+export const unwrapHighlightBlock = (pos: number): Command => {
+  return (state, dispatch) => {
+    const node = highlightBlockAt(state.doc, pos);
+    if (!node) return false;
+    if (!node.childCount) return deleteHighlightBlock(pos)(state, dispatch);
+
+    const $start = state.doc.resolve(pos + 1);
+    const range = $start.blockRange(state.doc.resolve(pos + node.nodeSize - 1));
+    const target = range && liftTarget(range);
+    if (!range || target == null) return false;
+
+    if (dispatch) dispatch(state.tr.lift(range, target).scrollIntoView());
+    return true;
+  };
+};
+
+export const deleteHighlightBlock = (pos: number): Command => {
+  return (state, dispatch) => {
+    const node = highlightBlockAt(state.doc, pos);
+    if (!node) return false;
+    if (dispatch) dispatch(state.tr.delete(pos, pos + node.nodeSize).scrollIntoView());
+    return true;
+  };
+};
+
+export const updateHighlightBlock = (
+  pos: number,
+  attrs: { [key: string]: any },
+): Command => {
+  return (state, dispatch) => {
+    const node = highlightBlockAt(state.doc, pos);
+    if (!node) return false;
+    if (dispatch)
+      dispatch(state.tr.setNodeMarkup(pos, null, { ...node.attrs, ...attrs }));
+    return true;
+  };
+};
+
+// 插入高亮块, 已在高亮块中时取消高亮
+export const setHighlightBlock = (attrs?: { [key: string]: any }): Command => {
+  return (state, dispatch) => {
+    const found = findHighlightBlock(state);
+    if (found) return unwrapHighlightBlock(found.pos)(state, dispatch);
+
+    const { $from, $to } = state.selection;
+    const range = $from.blockRange($to);
+    if (!range) return false;
+
+    const wrapping = findWrapping(range, state.schema.nodes.highlightBlock, attrs);
+    if (!wrapping) return false;
+
+    if (dispatch) dispatch(state.tr.wrap(range, wrapping).scrollIntoView());
+    return true;
+  };
+};
+
+// ======================================================== //
+//                          弹窗                            //
+// ======================================================== //
+const promptTheme = async (view: EditorView, pos: number) => {
+  const node = highlightBlockAt(view.state.doc, pos);
+  if (!node) return;
+  const current = highlightThemes.find(
+    (theme) => theme.backgroundColor === node.attrs.backgroundColor,
+  );
+  const values = await prompt({
+    title: '高亮块主题',
+    fields: {
+      theme: new SelectField({
+        label: '主题',
+        value: current ? current.name : highlightThemes[0].name,
+        options: highlightThemes.map(({ name, label }) => ({ value: name, label })),
+      }),
+    },
+  });
+  if (!values) return;
+  const { backgroundColor, borderColor } = highlightThemes.find(
+    ({ name }) => name === values.theme,
+  ) as (typeof highlightThemes)[number];
+  updateHighlightBlock(pos, { backgroundColor, borderColor })(view.state, view.dispatch);
+  view.focus();
+};
+
+const promptEmoji = async (view: EditorView, pos: number) => {
+  const node = highlightBlockAt(view.state.doc, pos);
+  if (!node) return;
+  const values = await prompt({
+    title: '选择 emoji',
+    fields: {
+      emoji: new SelectField({
+        label: 'Emoji',
+        value: node.attrs.emoji || '',
+        options: [
+          { value: '', label: '无' },
+          ...highlightEmojis.map((emoji) => ({ value: emoji, label: emoji })),
+        ],
+      }),
+    },
+  });
+  if (!values) return;
+  updateHighlightBlock(pos, { emoji: values.emoji || null })(view.state, view.dispatch);
+  view.focus();
+};
+
+// ======================================================== //
+//                        NodeView                          //
+// ======================================================== //
+class HighlightBlockView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  emoji: HTMLElement;
+  toolbar: HTMLElement;
+  node: Node;
+
+  constructor(node: Node, view: EditorView, getPos: () => number | undefined) {
+    this.node = node;
+    this.dom = createElement('div', 'highlight-block-container');
+
+    // 只读模式下不响应
+    const withPos = (fn: (pos: number) => void) => (e: Event) => {
+      e.preventDefault();
+      const pos = getPos();
+      if (pos != null && view.editable) fn(pos);
+    };
+
+    this.emoji = createElement('div', 'highlight-block-emoji');
+    this.emoji.contentEditable = 'false';
+    this.emoji.title = '选择 emoji';
+    this.emoji.addEventListener(
+      'mousedown',
+      withPos((pos) => promptEmoji(view, pos)),
+    );
+
+    this.toolbar = createElement('div', 'highlight-block-toolbar');
+    this.toolbar.contentEditable = 'false';
+    [
+      { label: '主题', run: (pos: number) => promptTheme(view, pos) },
+      {
+        label: '取消高亮',
+        run: (pos: number) => unwrapHighlightBlock(pos)(view.state, view.dispatch),
+      },
+      {
+        label: '删除',
+        run: (pos: number) => deleteHighlightBlock(pos)(view.state, view.dispatch),
+      },
+    ].forEach(({ label, run }) => {
+      const button = createElement('span', 'highlight-block-toolbar-item', label);
+      button.addEventListener('mousedown', withPos(run));
+      this.toolbar.appendChild(button);
+    });
+
+    this.contentDOM = createElement('div', 'highlight-block-content');
+    this.dom.appendChild(this.toolbar);
+    this.dom.appendChild(this.emoji);
+    this.dom.appendChild(this.contentDOM);
+    this.render();
+  }
+
+  render() {
+    const { backgroundColor, borderColor, emoji } = this.node.attrs;
+    this.dom.style.backgroundColor = backgroundColor;
+    this.dom.style.borderColor = borderColor;
+    this.dom.dataset.backgroundColor = backgroundColor;
+    this.dom.dataset.borderColor = borderColor;
+    if (emoji) this.dom.dataset.emoji = emoji;
+    else delete this.dom.dataset.emoji;
+    this.emoji.textContent = emoji || '';
+    this.emoji.classList.toggle('highlight-block-emoji-empty', !emoji);
+  }
+
+  update(node: Node) {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  stopEvent(event: Event) {
+    const target = event.target as HTMLElement;
+    return this.toolbar.contains(target) || this.emoji.contains(target);
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.type === 'selection') return false;
+    return !this.contentDOM.contains(mutation.target);
+  }
+}
+
+export const highlightBlockPlugin = () => {
+  return new Plugin({
+    key: new PluginKey('highlightBlock'),
+    props: {
+      nodeViews: {
+        highlightBlock: (node, view, getPos) =>
+          new HighlightBlockView(node, view, getPos),
+      },
+    },
+  });
+};
@@ -0,0 +1,152 @@
+import { type EditorState, Plugin, PluginKey } from 'prosemirror-state';
+import { type EditorView, Decoration, DecorationSet } from 'prosemirror-view';
+
+import { createElement } from './utils';
+
+export interface UploadResult {
+  src: string;
+  alt?: string;
+  title?: string;
+}
+
+// 上传文件, 返回图片地址
+export type Uploader = (file: File) => Promise<UploadResult>;
+
+export interface ImageUploadOptions {
+  uploader?: Uploader;
+  // 上传失败时调用, 默认输出到控制台
+  onError?: (error: Error, file: File) => void;
+}
+
+type PlaceholderMeta =
+  | { add: { id: number; pos: number; file: File } }
+  | { remove: number };
+
+export const imageUploadPluginKey = new PluginKey<DecorationSet>('imageUpload');
+
+// 默认上传: 转成 data URL 直接内嵌在文档里
+export const dataURLUploader: Uploader = (file) =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ src: reader.result as string, alt: file.name });
+    reader.onerror = () =>
+      reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const isImage = (file: File) => /^image\//.test(file.type);
+
+// 占位符映射后的位置, 所在内容被删除时返回 null
+const findPlaceholder = (state: EditorState, id: number) => {
+  const decorations = imageUploadPluginKey.getState(state);
+  if (!decorations) return null;
+  const found = decorations.find(undefined, undefined, (spec) => spec.id === id);
+  return found.length ? found[0].from : null;
+};
+
+let nextId = 0;
+
+// 在 pos 处插入占位符并上传, 完成后替换为图片节点
+export const uploadImages = async (
+  view: EditorView,
+  files: File[],
+  pos: number,
+  options: ImageUploadOptions = {},
+) => {
+  const { uploader = dataURLUploader, onError = console.error } = options;
+  const { image } = view.state.schema.nodes;
+  const uploads = files.filter(isImage).map((file) => ({ id: ++nextId, file }));
+  if (!image || !uploads.length) return;
+
+  const added: PlaceholderMeta[] = uploads.map(({ id, file }) => ({
+    add: { id, pos, file },
+  }));
+  view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, added));
+
+  const upload = async ({ id, file }: { id: number; file: File }) => {
+    const removed: PlaceholderMeta[] = [{ remove: id }];
+    try {
+      const { src, alt, title } = await uploader(file);
+      if (view.isDestroyed) return;
+      const at = findPlaceholder(view.state, id);
+      const tr = view.state.tr.setMeta(imageUploadPluginKey, removed);
+      // 占位符所在内容已被删除时放弃插入
+      if (at != null)
+        tr.replaceWith(at, at, image.create({ src, alt: alt ?? file.name, title }));
+      view.dispatch(tr);
+    } catch (error) {
+      if (!view.isDestroyed)
+        view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, removed));
+      onError(error instanceof Error ? error : new Error(String(error)), file);
+    }
+  };
+  await Promise.all(uploads.map(upload));
+};
+
+const placeholderWidget = (file: File) => () => {
+  const dom = createElement('span', 'yl-image-placeholder');
+  dom.textContent = `${file.name} 上传中...`;
+  return dom;
+};
+
+export const imageUploadPlugin = (options: ImageUploadOptions = {}) => {
+  // 上传失败已由 onError 处理, 这里兜住 onError 或 dispatch 本身抛出的异常
+  const upload = (view: EditorView, files: File[], pos: number) => {
+    uploadImages(view, files, pos, options).catch((error) => console.error(error));
+  };
+
+  return new Plugin<DecorationSet>({
+    key: imageUploadPluginKey,
+    state: {
+      init() {
+        return DecorationSet.empty;
+      },
+      apply(tr, prev) {
+        // 上传期间的编辑都要映射占位符的位置
+        let set = prev.map(tr.mapping, tr.doc);
+        const metas: PlaceholderMeta[] = tr.getMeta(imageUploadPluginKey) || [];
+        metas.forEach((meta) => {
+          if ('add' in meta) {
+            const { id, pos, file } = meta.add;
+            const widget = Decoration.widget(pos, placeholderWidget(file), {
+              id,
+              key: `image-upload-${id}`,
+            });
+            set = set.add(tr.doc, [widget]);
+          } else {
+            set = set.remove(
+              set.find(undefined, undefined, (spec) => spec.id === meta.remove),
+            );
+          }
+        });
+        return set;
+      },
+    },
+    props: {
+      decorations(state) {
+        return imageUploadPluginKey.getState(state);
+      },
+      handlePaste(view, event) {
+        const files = Array.from(event.clipboardData?.files || []).filter(isImage);
+        if (!files.length) return false;
+        event.preventDefault();
+
+        // 先删除选中内容, 占位符放在光标处
+        if (!view.state.selection.empty) view.dispatch(view.state.tr.deleteSelection());
+        upload(view, files, view.state.selection.from);
+        return true;
+      },
+      handleDrop(view, event, _slice, moved) {
+        if (moved) return false;
+        const files = Array.from(event.dataTransfer?.files || []).filter(isImage);
+        if (!files.length) return false;
+
+        const target = view.posAtCoords({ left: event.clientX, top: event.clientY });
+        if (!target) return false;
+        event.preventDefault();
+        upload(view, files, target.pos);
+        return true;
+      },
+    },
+  });
+};
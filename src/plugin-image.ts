@@ -0,0 +1,187 @@
+import { type Node } from 'prosemirror-model';
+import { NodeSelection, Plugin, PluginKey } from 'prosemirror-state';
+import { type EditorView, type NodeView } from 'prosemirror-view';
+
+import { prompt, TextField } from './basic-prompt';
+import { createElement } from './utils';
+
+const MIN_WIDTH = 32;
+
+const HANDLES = ['nw', 'ne', 'sw', 'se'];
+
+const ALIGNS: { value: string | null; label: string }[] = [
+  { value: null, label: '行内' },
+  { value: 'left', label: '左' },
+  { value: 'center', label: '中' },
+  { value: 'right', label: '右' },
+];
+
+// 图片: 拖动四角缩放 (保持宽高比), 选中时显示对齐和描述工具栏
+class ImageView implements NodeView {
+  dom: HTMLElement;
+  img: HTMLImageElement;
+  toolbar: HTMLElement;
+  node: Node;
+  view: EditorView;
+  getPos: () => number | undefined;
+  // 拖动中的清理函数
+  stopResize: (() => void) | null = null;
+
+  constructor(node: Node, view: EditorView, getPos: () => number | undefined) {
+    this.node = node;
+    this.view = view;
+    this.getPos = getPos;
+
+    this.dom = createElement('span', 'yl-image');
+    this.img = document.createElement('img');
+    this.dom.appendChild(this.img);
+
+    HANDLES.forEach((direction) => {
+      const handle = createElement('span', [
+        'yl-image-handle',
+        `yl-image-handle-${direction}`,
+      ]);
+      handle.addEventListener('mousedown', (e) => this.startResize(e, direction));
+      this.dom.appendChild(handle);
+    });
+
+    this.toolbar = createElement('span', 'yl-image-toolbar');
+    ALIGNS.forEach(({ value, label }) => {
+      const button = createElement('span', 'yl-image-toolbar-item', label);
+      button.dataset.align = value || '';
+      button.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        this.setAttrs({ align: value });
+      });
+      this.toolbar.appendChild(button);
+    });
+    const altButton = createElement('span', 'yl-image-toolbar-item', '描述');
+    altButton.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      this.editAlt();
+    });
+    this.toolbar.appendChild(altButton);
+    this.dom.appendChild(this.toolbar);
+
+    this.render();
+  }
+
+  render() {
+    const { src, alt, title, width, height, align } = this.node.attrs;
+    this.img.src = src;
+    this.img.alt = alt || '';
+    if (title) this.img.title = title;
+    else this.img.removeAttribute('title');
+    this.img.style.width = width ? `${width}px` : '';
+    this.img.style.height = height ? `${height}px` : '';
+
+    ALIGNS.forEach(({ value }) => {
+      if (value) this.dom.classList.toggle(`yl-image-align-${value}`, value === align);
+    });
+    Array.from(this.toolbar.children).forEach((button) => {
+      const active = (button as HTMLElement).dataset.align === (align || '');
+      button.classList.toggle('yl-image-toolbar-item-active', active);
+    });
+  }
+
+  // 一次事务修改属性, 撤销时一步还原
+  setAttrs(attrs: { [key: string]: any }) {
+    const pos = this.getPos();
+    if (pos == null || !this.view.editable) return;
+    const tr = this.view.state.tr;
+    Object.keys(attrs).forEach((name) => tr.setNodeAttribute(pos, name, attrs[name]));
+    this.view.dispatch(tr.setSelection(NodeSelection.create(tr.doc, pos)));
+  }
+
+  async editAlt() {
+    const values = await prompt({
+      title: '图片描述',
+      fields: {
+        alt: new TextField({ label: 'Description', value: this.node.attrs.alt }),
+      },
+    });
+    if (values) this.setAttrs({ alt: values.alt || null });
+  }
+
+  startResize(e: MouseEvent, direction: string) {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!this.view.editable) return;
+
+    const startX = e.clientX;
+    const startWidth = this.img.offsetWidth;
+    const ratio =
+      this.img.naturalWidth && this.img.naturalHeight
+        ? this.img.naturalHeight / this.img.naturalWidth
+        : this.img.offsetHeight / (startWidth || 1);
+    const maxWidth = this.view.dom.clientWidth || Infinity;
+    // 左侧的把手向左拖是放大
+    const sign = direction.endsWith('w') ? -1 : 1;
+    let width = startWidth;
+
+    this.dom.classList.add('yl-image-resizing');
+    // 拖动过程中只改样式, 松开时才提交事务
+    const onMove = (event: MouseEvent) => {
+      width = Math.round(
+        Math.min(
+          maxWidth,
+          Math.max(MIN_WIDTH, startWidth + sign * (event.clientX - startX)),
+        ),
+      );
+      this.img.style.width = `${width}px`;
+      this.img.style.height = `${Math.round(width * ratio)}px`;
+    };
+    const onUp = () => {
+      this.stopResize?.();
+      if (width !== startWidth)
+        this.setAttrs({ width, height: Math.round(width * ratio) });
+    };
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+    this.stopResize = () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      this.dom.classList.remove('yl-image-resizing');
+      this.stopResize = null;
+    };
+  }
+
+  update(node: Node) {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode');
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode');
+  }
+
+  stopEvent(event: Event) {
+    const target = event.target as HTMLElement;
+    return target !== this.img && this.dom.contains(target);
+  }
+
+  ignoreMutation() {
+    return true;
+  }
+
+  destroy() {
+    this.stopResize?.();
+  }
+}
+
+export const imagePlugin = () => {
+  return new Plugin({
+    key: new PluginKey('image'),
+    props: {
+      nodeViews: {
+        image: (node, view, getPos) => new ImageView(node, view, getPos),
+      },
+    },
+  });
+};
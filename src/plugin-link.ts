@@ -0,0 +1,265 @@
+import {
+  type Mark,
+  type MarkType,
+  type Node,
+  type NodeType,
+  Fragment,
+  Slice,
+} from 'prosemirror-model';
+import { type EditorState, type Transaction, Plugin, PluginKey } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+import { prompt, TextField } from './basic-prompt';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+// 行尾不算在链接里的标点
+const TRAILING = /[.,;:!?'")\]}>，。；：！？、）]+$/;
+const URL_GLOBAL = /(?:https?:\/\/|www\.)[^\s<>"'，。；：！？、（）]+/gi;
+const URL_START = /https?:\/\/|www\./i;
+
+// 整段文字是否为链接
+export const isURL = (text: string) => {
+  const match = text.match(URL_GLOBAL);
+  return !!match && match.length === 1 && match[0] === text && !TRAILING.test(text);
+};
+
+// www. 开头的链接补上协议
+export const normalizeHref = (url: string) =>
+  /^www\./i.test(url) ? `https://${url}` : url;
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+// 选区所在的整段链接, 选区跨出链接时返回 null
+export const findLinkRange = (state: EditorState) => {
+  const type = state.schema.marks.link;
+  const { $from, to } = state.selection;
+  if (!type || !$from.parent.inlineContent || to > $from.end()) return null;
+
+  const start = $from.start();
+  const runs: { from: number; to: number; mark: Mark }[] = [];
+  $from.parent.forEach((child, offset) => {
+    const from = start + offset;
+    const mark = type.isInSet(child.marks);
+    const last = runs[runs.length - 1];
+    if (!mark) return;
+    if (last && last.to === from && last.mark.eq(mark)) last.to = from + child.nodeSize;
+    else runs.push({ from, to: from + child.nodeSize, mark });
+  });
+  return runs.find((run) => run.from <= $from.pos && to <= run.to) || null;
+};
+
+// 取消链接: 去掉整段链接而不只是选中的部分
+export const removeLink: Command = (state, dispatch) => {
+  const range = findLinkRange(state);
+  if (!range) return false;
+  if (dispatch) dispatch(state.tr.removeMark(range.from, range.to, range.mark.type));
+  return true;
+};
+
+// 设置链接: 光标在链接中时修改整段链接, 有选区时给选区加链接, 否则插入链接文字
+export const setLink = (attrs: { href: string; title?: string | null }): Command => {
+  return (state, dispatch) => {
+    const type = state.schema.marks.link;
+    if (!type) return false;
+    const mark = type.create({ ...attrs, href: normalizeHref(attrs.href) });
+    const range = findLinkRange(state);
+    const { from, to, empty, $from } = state.selection;
+    if (!range && !$from.parent.type.allowsMarkType(type)) return false;
+
+    if (dispatch) {
+      const tr = state.tr;
+      if (range)
+        tr.removeMark(range.from, range.to, type).addMark(range.from, range.to, mark);
+      else if (!empty) tr.addMark(from, to, mark);
+      else tr.replaceSelectionWith(state.schema.text(attrs.href, [mark]), false);
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+};
+
+export const editLink = async (view: EditorView) => {
+  const range = findLinkRange(view.state);
+  const attrs = await prompt({
+    title: range ? '编辑链接' : '插入链接',
+    fields: {
+      href: new TextField({
+        label: 'Link target',
+        required: true,
+        value: range && range.mark.attrs.href,
+      }),
+      title: new TextField({ label: 'Title', value: range && range.mark.attrs.title }),
+    },
+  });
+  if (!attrs) return;
+  setLink({ href: attrs.href, title: attrs.title || null })(view.state, view.dispatch);
+  view.focus();
+};
+
+// ======================================================== //
+//                        自动识别                          //
+// ======================================================== //
+// 给片段中的链接文字加上 link mark
+const linkifyFragment = (fragment: Fragment, type: MarkType, parent: NodeType) => {
+  const nodes: Node[] = [];
+  fragment.forEach((child) => {
+    if (!child.isText) {
+      nodes.push(child.copy(linkifyFragment(child.content, type, child.type)));
+      return;
+    }
+    const text = child.text as string;
+    if (!parent.allowsMarkType(type) || type.isInSet(child.marks)) {
+      nodes.push(child);
+      return;
+    }
+    let pos = 0;
+    text.replace(URL_GLOBAL, (match, index: number) => {
+      const url = match.replace(TRAILING, '');
+      if (!isURL(url)) return match;
+      if (index > pos) nodes.push(child.cut(pos, index));
+      const mark = type.create({ href: normalizeHref(url) });
+      nodes.push(child.cut(index, index + url.length).mark(mark.addToSet(child.marks)));
+      pos = index + url.length;
+      return match;
+    });
+    if (pos < text.length) nodes.push(child.cut(pos));
+  });
+  return Fragment.fromArray(nodes);
+};
+
+// 输入空格时把光标前的链接文字转为链接
+const linkBeforeCursor = (view: EditorView, from: number, to: number, text: string) => {
+  const { state } = view;
+  const type = state.schema.marks.link;
+  const $from = state.doc.resolve(from);
+  if (!type || from !== to || !$from.parent.type.allowsMarkType(type)) return false;
+
+  const before = $from.parent.textBetween(
+    Math.max(0, $from.parentOffset - 500),
+    $from.parentOffset,
+    undefined,
+    '￼',
+  );
+  // 链接前面可以紧跟括号或中文, 从协议或 www. 开始截取
+  const word = /\S+$/.exec(before);
+  if (!word) return false;
+  const trimmed = word[0].replace(TRAILING, '');
+  const url = trimmed.slice(Math.max(0, trimmed.search(URL_START)));
+  if (!isURL(url)) return false;
+
+  const end = from - (word[0].length - trimmed.length);
+  const start = end - url.length;
+  if (state.doc.rangeHasMark(start, end, type)) return false;
+
+  view.dispatch(
+    state.tr
+      .addMark(start, end, type.create({ href: normalizeHref(url) }))
+      .insertText(text, from, to),
+  );
+  return true;
+};
+
+// ======================================================== //
+//                        链接浮层                          //
+// ======================================================== //
+class LinkTooltip {
+  dom: HTMLElement;
+  href: HTMLAnchorElement;
+  view: EditorView;
+  onScroll: () => void;
+
+  constructor(view: EditorView) {
+    this.view = view;
+    this.dom = document.body.appendChild(createElement('div', 'yl-link-tooltip'));
+    this.dom.style.display = 'none';
+    // 保持编辑器焦点
+    this.dom.addEventListener('mousedown', (e) => e.preventDefault());
+
+    this.href = this.dom.appendChild(document.createElement('a'));
+    this.href.className = 'yl-link-tooltip-href';
+    this.href.target = '_blank';
+    this.href.rel = 'noopener noreferrer';
+
+    [
+      { label: '打开', run: () => window.open(this.href.href, '_blank', 'noopener') },
+      { label: '编辑', run: () => editLink(this.view) },
+      {
+        label: '取消链接',
+        run: () => {
+          removeLink(this.view.state, this.view.dispatch);
+          this.view.focus();
+        },
+      },
+    ].forEach(({ label, run }) => {
+      const button = createElement('span', 'yl-link-tooltip-item', label);
+      button.addEventListener('click', run);
+      this.dom.appendChild(button);
+    });
+
+    this.onScroll = () => this.update(this.view);
+    window.addEventListener('scroll', this.onScroll, true);
+    this.update(view);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    const range = view.editable ? findLinkRange(view.state) : null;
+    if (!range) {
+      this.dom.style.display = 'none';
+      return;
+    }
+    const { href } = range.mark.attrs;
+    this.href.href = href;
+    this.href.textContent = href;
+    this.href.title = href;
+
+    const coords = view.coordsAtPos(range.from);
+    this.dom.style.display = '';
+    this.dom.style.top = coords.bottom + 4 + 'px';
+    this.dom.style.left = coords.left + 'px';
+  }
+
+  destroy() {
+    window.removeEventListener('scroll', this.onScroll, true);
+    this.dom.remove();
+  }
+}
+
+export const linkPlugin = () => {
+  return new Plugin({
+    key: new PluginKey('link'),
+    view: (view) => new LinkTooltip(view),
+    props: {
+      handleTextInput(view, from, to, text) {
+        if (!/^\s$/.test(text)) return false;
+        return linkBeforeCursor(view, from, to, text);
+      },
+      // 选中文字后粘贴链接: 给选中的文字加链接
+      handlePaste(view, event) {
+        const text = (event.clipboardData?.getData('text/plain') || '').trim();
+        if (view.state.selection.empty || !isURL(text)) return false;
+        const type = view.state.schema.marks.link;
+        const { from, to, $from } = view.state.selection;
+        if (!type || !$from.sameParent(view.state.selection.$to)) return false;
+        if (!$from.parent.type.allowsMarkType(type)) return false;
+        view.dispatch(
+          view.state.tr.addMark(from, to, type.create({ href: normalizeHref(text) })),
+        );
+        return true;
+      },
+      transformPasted(slice, view) {
+        const type = view.state.schema.marks.link;
+        if (!type) return slice;
+        const parent = view.state.selection.$from.parent.type;
+        return new Slice(
+          linkifyFragment(slice.content, type, parent),
+          slice.openStart,
+          slice.openEnd,
+        );
+      },
+    },
+  });
+};
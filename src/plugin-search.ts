@@ -0,0 +1,445 @@
+import { keydownHandler } from 'prosemirror-keymap';
+import { type Node } from 'prosemirror-model';
+import {
+  type EditorState,
+  type Transaction,
+  Plugin,
+  PluginKey,
+  TextSelection,
+} from 'prosemirror-state';
+import { type EditorView, Decoration, DecorationSet } from 'prosemirror-view';
+
+import { type DescribedKey, keyBindingsToKeymap } from './basic-keymap';
+import { closeIsolatedHistory, isolateHistory } from './history';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export interface SearchQuery {
+  text: string;
+  replace: string;
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+interface SearchMatch {
+  from: number;
+  to: number;
+  // 正则的捕获组, 替换时用于 $1 等
+  groups: string[];
+}
+
+interface SearchState {
+  open: boolean;
+  query: SearchQuery;
+  matches: SearchMatch[];
+  // 正则无效时的错误信息
+  error: string | null;
+}
+
+export const searchPluginKey = new PluginKey<SearchState>('search');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ======================================================== //
+//                          匹配                            //
+// ======================================================== //
+// 文本块中连续的文字 (跨 mark 合并), 遇到 dino / image 等原子节点断开
+const textRuns = (doc: Node) => {
+  const runs: { text: string; pos: number }[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    let run: { text: string; pos: number } | null = null;
+    node.forEach((child, offset) => {
+      const childPos = pos + 1 + offset;
+      if (child.isText) {
+        if (run && run.pos + run.text.length === childPos) run.text += child.text;
+        else runs.push((run = { text: child.text as string, pos: childPos }));
+      } else {
+        run = null;
+      }
+    });
+    return false;
+  });
+  return runs;
+};
+
+const findMatches = (doc: Node, query: SearchQuery) => {
+  let regexp: RegExp;
+  try {
+    const source = query.regex ? query.text : escapeRegExp(query.text);
+    regexp = new RegExp(source, query.caseSensitive ? 'gu' : 'giu');
+  } catch (e) {
+    return { matches: [], error: (e as Error).message };
+  }
+
+  const matches: SearchMatch[] = [];
+  textRuns(doc).forEach(({ text, pos }) => {
+    regexp.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regexp.exec(text))) {
+      // 跳过空匹配, 避免死循环
+      if (!match[0].length) {
+        regexp.lastIndex++;
+        continue;
+      }
+      matches.push({
+        from: pos + match.index,
+        to: pos + match.index + match[0].length,
+        groups: match.slice(1),
+      });
+    }
+  });
+  return { matches, error: null };
+};
+
+// 替换文本, 正则模式下支持 $1 / $& 等
+const replacementFor = (state: SearchState, match: SearchMatch, text: string) => {
+  const { replace, regex } = state.query;
+  if (!regex) return replace;
+  return replace.replace(/\$(\$|&|\d{1,2})/g, (all, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return text;
+    const group = match.groups[+ref - 1];
+    return group == null ? all : group;
+  });
+};
+
+// 替换一个匹配项: 替换为空时只删除文字, 否则沿用原来的 mark
+const replaceMatch = (tr: Transaction, from: number, to: number, text: string) => {
+  if (!text) return tr.delete(from, to);
+  const $from = tr.doc.resolve(from);
+  const marks = $from.marksAcross(tr.doc.resolve(to)) || $from.marks();
+  return tr.replaceWith(from, to, tr.doc.type.schema.text(text, marks));
+};
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+const getSearch = (state: EditorState) => searchPluginKey.getState(state);
+
+// 与选区重合的匹配项
+const currentIndex = (state: EditorState) => {
+  const search = getSearch(state);
+  if (!search) return -1;
+  const { from, to } = state.selection;
+  return search.matches.findIndex((match) => match.from === from && match.to === to);
+};
+
+const selectMatch = (state: EditorState, match: SearchMatch) =>
+  state.tr
+    .setSelection(TextSelection.create(state.doc, match.from, match.to))
+    .scrollIntoView();
+
+// 打开搜索面板, 有选中文字时作为搜索内容
+export const openSearch: Command = (state, dispatch) => {
+  const search = getSearch(state);
+  if (!search) return false;
+  if (dispatch) {
+    const { from, to, $from } = state.selection;
+    const selected = $from.sameParent(state.selection.$to)
+      ? state.doc.textBetween(from, to)
+      : '';
+    const query = selected
+      ? { ...search.query, text: selected, regex: false }
+      : search.query;
+    dispatch(state.tr.setMeta(searchPluginKey, { open: true, query }));
+  }
+  return true;
+};
+
+export const closeSearch: Command = (state, dispatch) => {
+  const search = getSearch(state);
+  if (!search || !search.open) return false;
+  if (dispatch) dispatch(state.tr.setMeta(searchPluginKey, { open: false }));
+  return true;
+};
+
+export const setSearchQuery = (query: Partial<SearchQuery>): Command => {
+  return (state, dispatch) => {
+    const search = getSearch(state);
+    if (!search) return false;
+    if (dispatch)
+      dispatch(
+        state.tr.setMeta(searchPluginKey, { query: { ...search.query, ...query } }),
+      );
+    return true;
+  };
+};
+
+export const findNext: Command = (state, dispatch) => {
+  const search = getSearch(state);
+  if (!search || !search.matches.length) return false;
+  const { to } = state.selection;
+  const next = search.matches.find((match) => match.from >= to) || search.matches[0];
+  if (dispatch) dispatch(selectMatch(state, next));
+  return true;
+};
+
+export const findPrev: Command = (state, dispatch) => {
+  const search = getSearch(state);
+  if (!search || !search.matches.length) return false;
+  const { from } = state.selection;
+  const prev =
+    search.matches.filter((match) => match.to <= from).pop() ||
+    search.matches[search.matches.length - 1];
+  if (dispatch) dispatch(selectMatch(state, prev));
+  return true;
+};
+
+// 替换当前匹配项并选中下一个; 没有选中匹配项时只跳到下一个
+export const replaceNext: Command = (state, dispatch) => {
+  const search = getSearch(state);
+  const index = currentIndex(state);
+  if (!search || index < 0) return findNext(state, dispatch);
+  if (dispatch) {
+    const match = search.matches[index];
+    const text = state.doc.textBetween(match.from, match.to);
+    const tr = replaceMatch(
+      state.tr,
+      match.from,
+      match.to,
+      replacementFor(search, match, text),
+    );
+    // 下一个匹配项在新文档中的位置
+    const { matches } = findMatches(tr.doc, search.query);
+    const after = tr.mapping.map(match.to);
+    const next = matches.find((item) => item.from >= after) || matches[0];
+    if (next) tr.setSelection(TextSelection.create(tr.doc, next.from, next.to));
+    // 替换不与前后的输入合并为同一步撤销
+    dispatch(isolateHistory(tr).scrollIntoView());
+  }
+  return true;
+};
+
+// 全部替换, 一次事务便于撤销
+export const replaceAll: Command = (state, dispatch) => {
+  const search = getSearch(state);
+  if (!search || !search.matches.length) return false;
+  if (dispatch) {
+    const tr = state.tr;
+    // 从后往前替换, 前面的位置不受影响
+    search.matches
+      .slice()
+      .reverse()
+      .forEach((match) => {
+        const text = state.doc.textBetween(match.from, match.to);
+        replaceMatch(tr, match.from, match.to, replacementFor(search, match, text));
+      });
+    dispatch(isolateHistory(tr));
+  }
+  return true;
+};
+
+// 查找面板中的按键, 打开面板的 Mod-f 在 exampleSetup 中绑定
+// field 为按键生效的输入框, panel 表示面板中任意位置
+const PANEL_KEYS: (DescribedKey & { field: 'search' | 'replace' | 'panel' })[] = [
+  {
+    description: '查找下一个 (查找框)',
+    keys: ['Enter'],
+    field: 'search',
+    command: findNext,
+  },
+  {
+    description: '查找上一个 (查找框)',
+    keys: ['Shift-Enter'],
+    field: 'search',
+    command: findPrev,
+  },
+  {
+    description: '替换当前 (替换框)',
+    keys: ['Enter'],
+    field: 'replace',
+    command: replaceNext,
+  },
+  {
+    description: '关闭查找',
+    keys: ['Escape'],
+    field: 'panel',
+    command: (state, dispatch, view) => {
+      closeSearch(state, dispatch);
+      view?.focus();
+      return true;
+    },
+  },
+];
+
+// 每个输入框的按键, 包括整个面板通用的按键
+const panelKeydownHandler = (field: 'search' | 'replace' | 'panel') =>
+  keydownHandler(
+    keyBindingsToKeymap(
+      PANEL_KEYS.filter((key) => key.field === field || key.field === 'panel'),
+    ),
+  );
+
+// ======================================================== //
+//                          面板                            //
+// ======================================================== //
+class SearchPanel {
+  dom: HTMLElement;
+  view: EditorView;
+  search: HTMLInputElement;
+  replace: HTMLInputElement;
+  caseSensitive: HTMLInputElement;
+  regex: HTMLInputElement;
+  count: HTMLElement;
+
+  constructor(view: EditorView) {
+    this.view = view;
+    this.dom = document.body.appendChild(createElement('div', 'yl-search-panel'));
+    this.dom.style.display = 'none';
+
+    const input = (placeholder: string, name: keyof SearchQuery) => {
+      const el = document.createElement('input');
+      el.type = 'text';
+      el.placeholder = placeholder;
+      el.setAttribute('aria-label', placeholder);
+      el.className = 'yl-search-input';
+      el.addEventListener('input', () => this.run(setSearchQuery({ [name]: el.value })));
+      return el;
+    };
+    const option = (label: string, title: string, name: keyof SearchQuery) => {
+      const wrapper = createElement('label', 'yl-search-option');
+      wrapper.title = title;
+      const el = wrapper.appendChild(document.createElement('input'));
+      el.type = 'checkbox';
+      el.addEventListener('change', () =>
+        this.run(setSearchQuery({ [name]: el.checked })),
+      );
+      wrapper.appendChild(document.createTextNode(label));
+      return { wrapper, el };
+    };
+    const button = (label: string, title: string, command: Command) => {
+      const el = createElement('button', 'yl-search-button', label);
+      el.title = title;
+      (el as HTMLButtonElement).type = 'button';
+      el.addEventListener('click', () => this.run(command));
+      return el;
+    };
+
+    this.search = input('查找', 'text');
+    this.replace = input('替换为', 'replace');
+    const caseOption = option('Aa', '区分大小写', 'caseSensitive');
+    const regexOption = option('.*', '正则表达式', 'regex');
+    this.caseSensitive = caseOption.el;
+    this.regex = regexOption.el;
+    this.count = createElement('span', 'yl-search-count');
+
+    const findRow = this.dom.appendChild(createElement('div', 'yl-search-row'));
+    [
+      this.search,
+      caseOption.wrapper,
+      regexOption.wrapper,
+      this.count,
+      button('↑', '上一个 (Shift-Enter)', findPrev),
+      button('↓', '下一个 (Enter)', findNext),
+      button('×', '关闭 (Escape)', closeSearch),
+    ].forEach((el) => findRow.appendChild(el));
+    const replaceRow = this.dom.appendChild(createElement('div', 'yl-search-row'));
+    [
+      this.replace,
+      button('替换', '替换当前', replaceNext),
+      button('全部替换', '全部替换', replaceAll),
+    ].forEach((el) => replaceRow.appendChild(el));
+
+    const handlers = {
+      search: panelKeydownHandler('search'),
+      replace: panelKeydownHandler('replace'),
+      panel: panelKeydownHandler('panel'),
+    };
+    this.dom.addEventListener('keydown', (e) => {
+      const field =
+        e.target === this.search
+          ? 'search'
+          : e.target === this.replace
+          ? 'replace'
+          : 'panel';
+      if (handlers[field](this.view, e)) e.preventDefault();
+    });
+    this.update(view);
+  }
+
+  run(command: Command) {
+    command(this.view.state, this.view.dispatch);
+  }
+
+  update(view: EditorView, prevState?: EditorState) {
+    this.view = view;
+    const search = getSearch(view.state);
+    if (!search || !search.open) {
+      this.dom.style.display = 'none';
+      return;
+    }
+    this.dom.style.display = '';
+
+    const { query, matches, error } = search;
+    // 输入框获得焦点时不覆盖正在输入的内容
+    if (document.activeElement !== this.search) this.search.value = query.text;
+    if (document.activeElement !== this.replace) this.replace.value = query.replace;
+    this.caseSensitive.checked = query.caseSensitive;
+    this.regex.checked = query.regex;
+
+    const index = currentIndex(view.state);
+    this.count.textContent = error
+      ? '无效的正则'
+      : `${index < 0 ? '?' : index + 1}/${matches.length}`;
+    this.count.title = error || '';
+    this.dom.classList.toggle('yl-search-panel-error', !!error);
+
+    const prev = prevState && getSearch(prevState);
+    if (!prev || !prev.open) {
+      this.search.focus();
+      this.search.select();
+    }
+  }
+
+  destroy() {
+    this.dom.remove();
+  }
+}
+
+export const searchPlugin = () => {
+  return new Plugin<SearchState>({
+    key: searchPluginKey,
+    state: {
+      init() {
+        return {
+          open: false,
+          query: { text: '', replace: '', caseSensitive: false, regex: false },
+          matches: [],
+          error: null,
+        };
+      },
+      apply(tr, prev) {
+        const meta = tr.getMeta(searchPluginKey);
+        if (!meta && !tr.docChanged) return prev;
+
+        const open: boolean = meta && meta.open != null ? meta.open : prev.open;
+        const query: SearchQuery = (meta && meta.query) || prev.query;
+        if (!open || !query.text) return { open, query, matches: [], error: null };
+        return { open, query, ...findMatches(tr.doc, query) };
+      },
+    },
+    view: (view) => new SearchPanel(view),
+    appendTransaction: closeIsolatedHistory,
+    shortcuts: { title: '查找替换', bindings: PANEL_KEYS },
+    props: {
+      decorations(state) {
+        const search = getSearch(state);
+        if (!search || !search.matches.length) return null;
+        const current = currentIndex(state);
+        return DecorationSet.create(
+          state.doc,
+          search.matches.map((match, i) =>
+            Decoration.inline(match.from, match.to, {
+              class:
+                i === current
+                  ? 'yl-search-match yl-search-match-current'
+                  : 'yl-search-match',
+            }),
+          ),
+        );
+      },
+    },
+  });
+};
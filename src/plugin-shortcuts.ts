@@ -0,0 +1,105 @@
+import { type EditorState, type Transaction, Plugin, PluginKey } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+import { formatKey, shortcutGroups } from './basic-keymap';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export const shortcutsKey = new PluginKey<boolean>('shortcuts');
+
+// Mod-/: 打开或关闭快捷键列表
+export const toggleShortcuts: Command = (state, dispatch) => {
+  const open = shortcutsKey.getState(state);
+  if (open === undefined) return false;
+  if (dispatch) dispatch(state.tr.setMeta(shortcutsKey, !open));
+  return true;
+};
+
+const closeShortcuts: Command = (state, dispatch) => {
+  if (!shortcutsKey.getState(state)) return false;
+  if (dispatch) dispatch(state.tr.setMeta(shortcutsKey, false));
+  return true;
+};
+
+// ======================================================== //
+//                        快捷键列表                          //
+// ======================================================== //
+// 列出所有插件登记的按键 (见 basic-keymap 的 describedKeymap)
+class ShortcutsOverlay {
+  dom: HTMLElement;
+  view: EditorView;
+
+  constructor(view: EditorView) {
+    this.view = view;
+    this.dom = document.body.appendChild(createElement('div', 'yl-shortcuts-overlay'));
+    this.dom.style.display = 'none';
+    // 点击遮罩关闭
+    this.dom.addEventListener('mousedown', (e) => {
+      if (e.target !== this.dom) return;
+      e.preventDefault();
+      closeShortcuts(this.view.state, this.view.dispatch);
+    });
+
+    const dialog = this.dom.appendChild(createElement('div', 'yl-shortcuts-dialog'));
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', '快捷键');
+    const header = dialog.appendChild(createElement('div', 'yl-shortcuts-header'));
+    header.appendChild(createElement('span', 'yl-shortcuts-title', '快捷键'));
+    const close = header.appendChild(createElement('span', 'yl-shortcuts-close', '×'));
+    close.title = '关闭 (Escape)';
+    close.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      closeShortcuts(this.view.state, this.view.dispatch);
+    });
+
+    shortcutGroups(view.state).forEach(({ title, bindings }) => {
+      dialog.appendChild(createElement('div', 'yl-shortcuts-group')).textContent = title;
+      const list = dialog.appendChild(createElement('dl', 'yl-shortcuts-list'));
+      bindings.forEach(({ name, description, keys }) => {
+        const term = list.appendChild(createElement('dt', 'yl-shortcuts-description'));
+        term.textContent = description;
+        if (name) term.title = name;
+        const detail = list.appendChild(createElement('dd', 'yl-shortcuts-keys'));
+        // Mod-b 和 Mod-B 显示相同, 只保留一个
+        Array.from(new Set(keys.map(formatKey))).forEach((label) => {
+          detail.appendChild(createElement('kbd', 'yl-shortcuts-key')).textContent =
+            label;
+        });
+      });
+    });
+    this.update(view);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    this.dom.style.display = shortcutsKey.getState(view.state) ? '' : 'none';
+  }
+
+  destroy() {
+    this.dom.remove();
+  }
+}
+
+export const shortcutsPlugin = () => {
+  return new Plugin<boolean>({
+    key: shortcutsKey,
+    state: {
+      init() {
+        return false;
+      },
+      apply(tr, prev) {
+        const meta = tr.getMeta(shortcutsKey);
+        return meta == null ? prev : meta;
+      },
+    },
+    view: (view) => new ShortcutsOverlay(view),
+    props: {
+      // 打开时 Escape 只关闭列表
+      handleKeyDown(view, event) {
+        if (event.key !== 'Escape') return false;
+        return closeShortcuts(view.state, view.dispatch);
+      },
+    },
+  });
+};
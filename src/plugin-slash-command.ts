@@ -0,0 +1,110 @@
+import { type MenuItem } from 'prosemirror-menu';
+import { type EditorState, PluginKey } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+import { setHighlightBlock } from './plugin-highlight-block';
+import { stickerMenuItem } from './plugin-sticker';
+import { type SuggestPopupState, suggestPopupPlugin } from './plugin-suggest-popup';
+
+export interface SlashCommand {
+  name: string;
+  label: string;
+  // 额外的搜索关键词
+  keywords?: string[];
+  enable?: (state: EditorState) => boolean;
+  // 执行前 `/query` 已被删除
+  run: (view: EditorView) => void;
+}
+
+// 把工具栏的 MenuItem 包装为斜杠命令, 执行同样的逻辑
+export const menuItemCommand = (
+  name: string,
+  item: MenuItem | null | undefined,
+  label: string,
+  keywords?: string[],
+): SlashCommand | null => {
+  if (!item) return null;
+  const { spec } = item;
+  return {
+    name,
+    label,
+    keywords,
+    enable: (state) => {
+      if (spec.select && !spec.select(state)) return false;
+      return spec.enable ? spec.enable(state) : true;
+    },
+    run: (view) => spec.run(view.state, view.dispatch, view, new Event('slash')),
+  };
+};
+
+// 默认命令, menu 为 buildMenuItems 的返回值
+export const buildSlashCommands = (menu: { [name: string]: any }) => {
+  const commands = [
+    menuItemCommand('heading1', menu.makeHead1, '一级标题', ['h1', 'heading']),
+    menuItemCommand('heading2', menu.makeHead2, '二级标题', ['h2', 'heading']),
+    menuItemCommand('heading3', menu.makeHead3, '三级标题', ['h3', 'heading']),
+    menuItemCommand('bulletList', menu.wrapBulletList, '无序列表', ['ul', 'list']),
+    menuItemCommand('orderedList', menu.wrapOrderedList, '有序列表', ['ol', 'list']),
+    menuItemCommand('blockquote', menu.wrapBlockQuote, '引用', ['quote']),
+    menuItemCommand('codeBlock', menu.makeCodeBlock, '代码块', ['code']),
+    menuItemCommand('horizontalRule', menu.insertHorizontalRule, '分割线', ['hr']),
+    menuItemCommand('table', menu.insertTable, '表格', ['table']),
+    menuItemCommand('image', menu.insertImage, '图片', ['image', 'img']),
+    menuItemCommand('sticker', stickerMenuItem(), '贴纸', ['sticker', 'dino']),
+    {
+      name: 'highlightBlock',
+      label: '高亮块',
+      keywords: ['highlight', 'callout'],
+      enable: (state: EditorState) => setHighlightBlock()(state),
+      run: (view: EditorView) => setHighlightBlock()(view.state, view.dispatch),
+    },
+  ];
+  return commands.filter((command): command is SlashCommand => !!command);
+};
+
+// ======================================================== //
+//                        命令面板                          //
+// ======================================================== //
+export const slashCommandKey = new PluginKey<SuggestPopupState<SlashCommand>>(
+  'slashCommand',
+);
+
+// 空段落中只有 `/query` 时触发
+const matchQuery = (state: EditorState) => {
+  const { selection } = state;
+  if (!selection.empty) return null;
+  const { $from } = selection;
+  const { parent } = $from;
+  if (parent.type.name !== 'paragraph' || $from.parentOffset !== parent.content.size)
+    return null;
+  const match = /^\/([^\s/]*)$/.exec(parent.textContent);
+  if (!match || parent.childCount !== 1) return null;
+  return { from: $from.start(), to: $from.pos, query: match[1].toLowerCase() };
+};
+
+const filterCommands = (commands: SlashCommand[], state: EditorState, query: string) =>
+  commands.filter(
+    ({ name, label, keywords = [], enable }) =>
+      [name, label, ...keywords].some((text) => text.toLowerCase().includes(query)) &&
+      (!enable || enable(state)),
+  );
+
+// 自定义命令和默认命令一起传入: { commands: [...buildSlashCommands(menu), custom] }
+export const slashCommandPlugin = (options: { commands: SlashCommand[] }) => {
+  const { commands } = options;
+  return suggestPopupPlugin<SlashCommand>({
+    key: slashCommandKey,
+    title: '斜杠命令 (段落开头输入 /)',
+    className: 'yl-slash-menu',
+    match: matchQuery,
+    items: (query, state) => filterCommands(commands, state, query),
+    execute: (view, command, { from, to }) => {
+      view.dispatch(view.state.tr.delete(from, to));
+      command.run(view);
+      view.focus();
+    },
+    render: (command, dom) => {
+      dom.textContent = command.label;
+    },
+  });
+};
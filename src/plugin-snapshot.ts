@@ -0,0 +1,341 @@
+import { MenuItem } from 'prosemirror-menu';
+import { Node } from 'prosemirror-model';
+import {
+  type Transaction,
+  EditorState,
+  Plugin,
+  PluginKey,
+  Selection,
+} from 'prosemirror-state';
+import { type DecorationSet, EditorView } from 'prosemirror-view';
+
+import { prompt, TextField } from './basic-prompt';
+import { closeIsolatedHistory, isolateHistory } from './history';
+import { diffDocs } from './snapshot-diff';
+import { type Snapshot, type SnapshotInfo, type SnapshotStore } from './snapshot-store';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export interface SnapshotOptions {
+  store: SnapshotStore;
+  // 存储读写失败时调用, 默认输出到控制台
+  onError?: (error: Error) => void;
+}
+
+interface SnapshotState {
+  open: boolean;
+}
+
+export const snapshotKey = new PluginKey<SnapshotState>('snapshot');
+
+// 对比选择框中代表编辑器当前内容的值
+const CURRENT = '';
+
+const randomID = () => Math.random().toString(36).slice(2, 10);
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+export const openSnapshots: Command = (state, dispatch) => {
+  if (dispatch) dispatch(state.tr.setMeta(snapshotKey, { open: true }));
+  return true;
+};
+
+export const closeSnapshots: Command = (state, dispatch) => {
+  const snapshot = snapshotKey.getState(state);
+  if (!snapshot || !snapshot.open) return false;
+  if (dispatch) dispatch(state.tr.setMeta(snapshotKey, { open: false }));
+  return true;
+};
+
+export const saveSnapshot = async (
+  store: SnapshotStore,
+  state: EditorState,
+  name: string,
+) => {
+  const snapshot: Snapshot = {
+    id: randomID(),
+    name,
+    time: Date.now(),
+    doc: state.doc.toJSON(),
+  };
+  await store.put(snapshot);
+  return snapshot;
+};
+
+// 用快照内容替换整篇文档, 作为单独的一步撤销
+export const restoreSnapshot = (doc: Node): Command => {
+  return (state, dispatch) => {
+    if (dispatch) {
+      const tr = state.tr.replaceWith(0, state.doc.content.size, doc.content);
+      tr.setSelection(Selection.atStart(tr.doc));
+      dispatch(isolateHistory(tr).scrollIntoView());
+    }
+    return true;
+  };
+};
+
+export const snapshotMenuItem = () =>
+  new MenuItem({
+    title: '保存 / 对比 / 恢复历史版本',
+    label: '历史版本',
+    active: (state) => !!snapshotKey.getState(state)?.open,
+    run: (state, dispatch) => {
+      if (!closeSnapshots(state, dispatch)) openSnapshots(state, dispatch);
+    },
+  });
+
+// ======================================================== //
+//                        版本面板                          //
+// ======================================================== //
+class SnapshotPanel {
+  dom: HTMLElement;
+  view: EditorView;
+  options: SnapshotOptions;
+  list: HTMLElement;
+  from: HTMLSelectElement;
+  to: HTMLSelectElement;
+  summary: HTMLElement;
+  diffContainer: HTMLElement;
+  diffView: EditorView | null = null;
+  decorations: DecorationSet | null = null;
+  snapshots: SnapshotInfo[] = [];
+  // 异步加载时只保留最后一次对比的结果
+  renderID = 0;
+
+  constructor(view: EditorView, options: SnapshotOptions) {
+    this.view = view;
+    this.options = options;
+    this.dom = document.body.appendChild(createElement('div', 'yl-snapshot-panel'));
+    this.dom.style.display = 'none';
+
+    const header = this.dom.appendChild(createElement('div', 'yl-snapshot-header'));
+    header.appendChild(createElement('span', 'yl-snapshot-title', '历史版本'));
+    header.appendChild(
+      this.button('保存版本', '保存当前内容为新版本', () => this.save()),
+    );
+    header.appendChild(
+      this.button('×', '关闭 (Escape)', () => closeSnapshots(view.state, view.dispatch)),
+    );
+
+    this.list = this.dom.appendChild(createElement('ul', 'yl-snapshot-list'));
+
+    const compare = this.dom.appendChild(createElement('div', 'yl-snapshot-compare'));
+    this.from = this.select('对比的旧版本');
+    this.to = this.select('对比的新版本');
+    compare.appendChild(this.from);
+    compare.appendChild(createElement('span', 'yl-snapshot-arrow', '→'));
+    compare.appendChild(this.to);
+    this.summary = this.dom.appendChild(createElement('div', 'yl-snapshot-summary'));
+    this.diffContainer = this.dom.appendChild(createElement('div', 'yl-snapshot-diff'));
+
+    this.dom.addEventListener('keydown', (e) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      closeSnapshots(this.view.state, this.view.dispatch);
+      this.view.focus();
+    });
+    this.update(view);
+  }
+
+  button(label: string, title: string, onClick: () => void) {
+    const el = createElement('button', 'yl-snapshot-button', label) as HTMLButtonElement;
+    el.type = 'button';
+    el.title = title;
+    el.addEventListener('click', onClick);
+    return el;
+  }
+
+  select(label: string) {
+    const el = document.createElement('select');
+    el.className = 'yl-snapshot-select';
+    el.setAttribute('aria-label', label);
+    el.addEventListener('change', () => this.renderDiff());
+    return el;
+  }
+
+  onError(error: Error) {
+    if (this.options.onError) this.options.onError(error);
+    else console.error(error);
+  }
+
+  update(view: EditorView, prevState?: EditorState) {
+    this.view = view;
+    const open = !!snapshotKey.getState(view.state)?.open;
+    const wasOpen = !!prevState && !!snapshotKey.getState(prevState)?.open;
+    this.dom.style.display = open ? '' : 'none';
+    if (!open) return;
+    if (!wasOpen) this.refresh();
+    // 和当前内容对比时跟随编辑更新
+    else if (prevState && !prevState.doc.eq(view.state.doc) && this.to.value === CURRENT)
+      this.renderDiff();
+  }
+
+  async refresh() {
+    try {
+      this.snapshots = await this.options.store.list();
+    } catch (error) {
+      this.onError(error as Error);
+      return;
+    }
+    this.renderList();
+    this.renderDiff();
+  }
+
+  renderList() {
+    this.list.innerHTML = '';
+    if (!this.snapshots.length)
+      this.list.appendChild(createElement('li', 'yl-snapshot-empty', '还没有保存的版本'));
+    this.snapshots.forEach((snapshot) => {
+      const item = this.list.appendChild(createElement('li', 'yl-snapshot-item'));
+      const info = item.appendChild(createElement('div', 'yl-snapshot-info'));
+      const name = info.appendChild(createElement('div', 'yl-snapshot-name'));
+      name.textContent = snapshot.name;
+      info.appendChild(
+        createElement('div', 'yl-snapshot-time', formatTime(snapshot.time)),
+      );
+      item.appendChild(
+        this.button('对比', '与当前内容对比', () => {
+          this.from.value = snapshot.id;
+          this.to.value = CURRENT;
+          this.renderDiff();
+        }),
+      );
+      item.appendChild(
+        this.button('恢复', '恢复到这个版本', () => this.restore(snapshot.id)),
+      );
+      item.appendChild(
+        this.button('删除', '删除这个版本', () => this.remove(snapshot.id)),
+      );
+    });
+
+    // 保留之前的选择, 默认对比最新的版本和当前内容
+    const options = [
+      { value: CURRENT, label: '当前内容' },
+      ...this.snapshots.map(({ id, name, time }) => ({
+        value: id,
+        label: `${name} (${formatTime(time)})`,
+      })),
+    ];
+    const ids = options.map(({ value }) => value);
+    const defaults = [this.snapshots.length ? this.snapshots[0].id : CURRENT, CURRENT];
+    [this.from, this.to].forEach((select, i) => {
+      const value =
+        ids.includes(select.value) && select.options.length ? select.value : defaults[i];
+      select.innerHTML = '';
+      options.forEach(({ value, label }) => {
+        const option = select.appendChild(document.createElement('option'));
+        option.value = value;
+        option.textContent = label;
+      });
+      select.value = value;
+    });
+  }
+
+  async loadDoc(id: string) {
+    if (id === CURRENT) return this.view.state.doc;
+    const snapshot = await this.options.store.get(id);
+    if (!snapshot) throw new Error(`Snapshot ${id} not found`);
+    return Node.fromJSON(this.view.state.schema, snapshot.doc);
+  }
+
+  async renderDiff() {
+    const renderID = ++this.renderID;
+    let before: Node;
+    let after: Node;
+    try {
+      [before, after] = await Promise.all([
+        this.loadDoc(this.from.value),
+        this.loadDoc(this.to.value),
+      ]);
+    } catch (error) {
+      this.onError(error as Error);
+      return;
+    }
+    if (renderID !== this.renderID) return;
+
+    const { doc, decorations, changes } = diffDocs(before, after);
+    this.summary.textContent = changes ? `${changes} 处改动` : '没有差异';
+    this.decorations = decorations;
+    const state = EditorState.create({ doc });
+    if (this.diffView) this.diffView.updateState(state);
+    else
+      this.diffView = new EditorView(this.diffContainer, {
+        state,
+        editable: () => false,
+        decorations: () => this.decorations || undefined,
+      });
+  }
+
+  async save() {
+    const values = await prompt({
+      title: '保存版本',
+      fields: {
+        name: new TextField({
+          label: '版本名称',
+          required: true,
+          value: formatTime(Date.now()),
+        }),
+      },
+    });
+    if (!values) return;
+    try {
+      const snapshot = await saveSnapshot(
+        this.options.store,
+        this.view.state,
+        values.name,
+      );
+      await this.refresh();
+      this.from.value = snapshot.id;
+      this.renderDiff();
+    } catch (error) {
+      this.onError(error as Error);
+    }
+  }
+
+  async restore(id: string) {
+    try {
+      const doc = await this.loadDoc(id);
+      const { view } = this;
+      restoreSnapshot(doc)(view.state, view.dispatch);
+      view.focus();
+    } catch (error) {
+      this.onError(error as Error);
+    }
+  }
+
+  async remove(id: string) {
+    try {
+      await this.options.store.delete(id);
+    } catch (error) {
+      this.onError(error as Error);
+      return;
+    }
+    this.refresh();
+  }
+
+  destroy() {
+    if (this.diffView) this.diffView.destroy();
+    this.dom.remove();
+  }
+}
+
+export const snapshotPlugin = (options: SnapshotOptions) => {
+  return new Plugin<SnapshotState>({
+    key: snapshotKey,
+    state: {
+      init() {
+        return { open: false };
+      },
+      apply(tr, prev) {
+        const meta = tr.getMeta(snapshotKey);
+        return meta ? { ...prev, ...meta } : prev;
+      },
+    },
+    appendTransaction: closeIsolatedHistory,
+    view: (view) => new SnapshotPanel(view, options),
+  });
+};
@@ -0,0 +1,135 @@
+import { MenuItem } from 'prosemirror-menu';
+import { type EditorState, type Transaction, PluginKey } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+import { type SuggestPopupState, suggestPopupPlugin } from './plugin-suggest-popup';
+import { type Sticker, listStickers, searchStickers } from './stickers';
+import { createElement } from './utils';
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+// 在选区处插入贴纸
+export const insertSticker = (name: string) => {
+  return (state: EditorState, dispatch?: (tr: Transaction) => void) => {
+    const { dino } = state.schema.nodes;
+    const { $from } = state.selection;
+    const index = $from.index();
+    if (!dino || !$from.parent.canReplaceWith(index, index, dino)) return false;
+
+    if (dispatch)
+      dispatch(
+        state.tr.replaceSelectionWith(dino.create({ type: name })).scrollIntoView(),
+      );
+    return true;
+  };
+};
+
+// ======================================================== //
+//                        贴纸面板                          //
+// ======================================================== //
+const PICKER_COLS = 6;
+
+function openStickerPicker(anchor: Element | null, callback: (name: string) => void) {
+  const prefix = 'ProseMirror-sticker-picker';
+  const wrapper = document.body.appendChild(createElement('div', prefix));
+  const grid = wrapper.appendChild(createElement('div', `${prefix}-grid`));
+  grid.style.gridTemplateColumns = `repeat(${PICKER_COLS}, 1fr)`;
+
+  const close = () => {
+    window.removeEventListener('mousedown', mouseOutside);
+    window.removeEventListener('keydown', keydown);
+    wrapper.remove();
+  };
+  const mouseOutside = (e: MouseEvent) => {
+    if (!wrapper.contains(e.target as Node)) close();
+  };
+  const keydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') close();
+  };
+  setTimeout(() => window.addEventListener('mousedown', mouseOutside), 50);
+  window.addEventListener('keydown', keydown);
+
+  listStickers().forEach(({ name, label, src }) => {
+    const cell = grid.appendChild(createElement('div', `${prefix}-cell`));
+    cell.title = `${label} :${name}:`;
+    const img = cell.appendChild(document.createElement('img'));
+    img.src = src;
+    img.alt = label;
+    cell.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      close();
+      callback(name);
+    });
+  });
+
+  const box = anchor ? anchor.getBoundingClientRect() : null;
+  wrapper.style.top = (box ? box.bottom + 4 : window.innerHeight / 3) + 'px';
+  wrapper.style.left = (box ? box.left : window.innerWidth / 3) + 'px';
+}
+
+export const stickerMenuItem = () => {
+  return new MenuItem({
+    title: '插入贴纸',
+    label: '贴纸',
+    enable(state) {
+      return !!listStickers().length && insertSticker(listStickers()[0].name)(state);
+    },
+    run(_, __, view: EditorView, event: Event) {
+      openStickerPicker(event && (event.target as Element), (name) => {
+        insertSticker(name)(view.state, view.dispatch);
+        view.focus();
+      });
+    },
+  });
+};
+
+// ======================================================== //
+//                     `:name` 自动补全                      //
+// ======================================================== //
+export const stickerSuggestKey = new PluginKey<SuggestPopupState<Sticker>>(
+  'stickerSuggest',
+);
+
+const QUERY = /(?:^|[^\w:]):([\w-]{1,32})$/;
+
+const matchQuery = (state: EditorState) => {
+  const { selection } = state;
+  if (!selection.empty) return null;
+  const { $from } = selection;
+  if (!$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+  const text = $from.parent.textBetween(
+    Math.max(0, $from.parentOffset - 40),
+    $from.parentOffset,
+    undefined,
+    '￼',
+  );
+  const match = QUERY.exec(text);
+  if (!match) return null;
+  return { from: $from.pos - match[1].length - 1, to: $from.pos, query: match[1] };
+};
+
+export const stickerSuggestPlugin = () => {
+  return suggestPopupPlugin<Sticker>({
+    key: stickerSuggestKey,
+    title: '贴纸补全 (输入 :名称)',
+    className: 'yl-sticker-suggest',
+    match: matchQuery,
+    items: (query) => searchStickers(query),
+    execute: (view, sticker, { from, to }) => {
+      const { dino } = view.state.schema.nodes;
+      if (!dino) return;
+      view.dispatch(
+        view.state.tr
+          .replaceWith(from, to, dino.create({ type: sticker.name }))
+          .scrollIntoView(),
+      );
+    },
+    render: (sticker, dom) => {
+      const img = dom.appendChild(document.createElement('img'));
+      img.src = sticker.src;
+      img.alt = sticker.label;
+      dom.appendChild(createElement('span', '', `${sticker.label} :${sticker.name}:`));
+    },
+  });
+};
@@ -0,0 +1,182 @@
+import { keydownHandler } from 'prosemirror-keymap';
+import { type EditorState, Plugin, PluginKey } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+
+import { type DescribedKey, keyBindingsToKeymap } from './basic-keymap';
+import { createElement } from './utils';
+
+// ======================================================== //
+//                  输入触发的候选列表弹窗                     //
+// ======================================================== //
+// 斜杠命令, 贴纸补全等共用: 光标前的文字匹配时弹出候选项,
+// 上下键选择, Enter / Tab 执行, Escape 关闭
+
+// 触发文字的范围, 执行时通常会被替换掉
+export interface SuggestRange {
+  from: number;
+  to: number;
+}
+
+export interface SuggestMatch extends SuggestRange {
+  query: string;
+}
+
+export interface SuggestActive<Item> extends SuggestRange {
+  items: Item[];
+  index: number;
+}
+
+export interface SuggestPopupState<Item> {
+  active: SuggestActive<Item> | null;
+  // 按 Escape 关闭的弹窗起点, 光标离开后失效
+  dismissed: number | null;
+}
+
+type SuggestPopupMeta = { index: number } | { dismiss: true };
+
+export interface SuggestPopupOptions<Item> {
+  key: PluginKey<SuggestPopupState<Item>>;
+  // 快捷键列表中的分组名
+  title: string;
+  // 弹窗的 class, 候选项为 `${className}-item`, 选中项另加 `${className}-item-active`
+  className: string;
+  match: (state: EditorState) => SuggestMatch | null;
+  items: (query: string, state: EditorState) => Item[];
+  execute: (view: EditorView, item: Item, range: SuggestRange) => void;
+  // 填充候选项的内容
+  render: (item: Item, dom: HTMLElement) => void;
+}
+
+const execute = <Item>(
+  options: SuggestPopupOptions<Item>,
+  view: EditorView,
+  active: SuggestActive<Item>,
+  index: number,
+) => {
+  const item = active.items[index];
+  if (item) options.execute(view, item, { from: active.from, to: active.to });
+};
+
+// 弹窗打开时的按键, 没有弹窗时交给其他插件处理
+const popupKeys = <Item>(options: SuggestPopupOptions<Item>): DescribedKey[] => {
+  const { key } = options;
+  const whenActive =
+    (
+      run: (view: EditorView, active: SuggestActive<Item>) => void,
+    ): DescribedKey['command'] =>
+    (state, _dispatch, view) => {
+      const pluginState = key.getState(state);
+      const active = pluginState && pluginState.active;
+      if (!active || !view) return false;
+      run(view, active);
+      return true;
+    };
+  const setMeta = (view: EditorView, meta: SuggestPopupMeta) =>
+    view.dispatch(view.state.tr.setMeta(key, meta));
+
+  return [
+    {
+      description: '上一个候选项',
+      keys: ['ArrowUp'],
+      command: whenActive((view, active) => setMeta(view, { index: active.index - 1 })),
+    },
+    {
+      description: '下一个候选项',
+      keys: ['ArrowDown'],
+      command: whenActive((view, active) => setMeta(view, { index: active.index + 1 })),
+    },
+    {
+      description: '执行选中的候选项',
+      keys: ['Enter', 'Tab'],
+      command: whenActive((view, active) => execute(options, view, active, active.index)),
+    },
+    {
+      description: '关闭候选列表',
+      keys: ['Escape'],
+      command: whenActive((view) => setMeta(view, { dismiss: true })),
+    },
+  ];
+};
+
+class SuggestPopupView<Item> {
+  dom: HTMLElement;
+  view: EditorView;
+  options: SuggestPopupOptions<Item>;
+
+  constructor(view: EditorView, options: SuggestPopupOptions<Item>) {
+    this.view = view;
+    this.options = options;
+    this.dom = document.body.appendChild(createElement('div', options.className));
+    this.dom.style.display = 'none';
+    this.update(view);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    const { key, className, render } = this.options;
+    const pluginState = key.getState(view.state);
+    const active = pluginState && pluginState.active;
+    if (!active) {
+      this.dom.style.display = 'none';
+      return;
+    }
+
+    this.dom.innerHTML = '';
+    active.items.forEach((suggestion, i) => {
+      const item = this.dom.appendChild(createElement('div', `${className}-item`));
+      render(suggestion, item);
+      if (i === active.index) {
+        item.classList.add(`${className}-item-active`);
+        requestAnimationFrame(() => item.scrollIntoView({ block: 'nearest' }));
+      }
+      item.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        execute(this.options, this.view, active, i);
+      });
+    });
+
+    const coords = view.coordsAtPos(active.from);
+    this.dom.style.display = '';
+    this.dom.style.top = coords.bottom + 4 + 'px';
+    this.dom.style.left = coords.left + 'px';
+  }
+
+  destroy() {
+    this.dom.remove();
+  }
+}
+
+export const suggestPopupPlugin = <Item>(options: SuggestPopupOptions<Item>) => {
+  const { key } = options;
+  const keys = popupKeys(options);
+
+  return new Plugin<SuggestPopupState<Item>>({
+    key,
+    state: {
+      init() {
+        return { active: null, dismissed: null };
+      },
+      apply(tr, prev, _, newState) {
+        const meta: SuggestPopupMeta | undefined = tr.getMeta(key);
+        const match = options.match(newState);
+        let dismissed = meta && 'dismiss' in meta ? match && match.from : prev.dismissed;
+        if (!match || match.from !== dismissed) dismissed = null;
+
+        const items = match ? options.items(match.query, newState) : [];
+        if (!match || !items.length || dismissed != null)
+          return { active: null, dismissed };
+
+        let index =
+          prev.active && prev.active.from === match.from ? prev.active.index : 0;
+        if (meta && 'index' in meta) index = meta.index;
+        index = (index + items.length) % items.length;
+        return { active: { from: match.from, to: match.to, items, index }, dismissed };
+      },
+    },
+    view: (view) => new SuggestPopupView(view, options),
+    shortcuts: { title: options.title, bindings: keys },
+    props: {
+      handleKeyDown: keydownHandler(keyBindingsToKeymap(keys)),
+    },
+  });
+};
@@ -0,0 +1,639 @@
+import { MenuItem } from 'prosemirror-menu';
+import { type Mark, type MarkType, type Node, Slice } from 'prosemirror-model';
+import {
+  type EditorState,
+  type Transaction,
+  Plugin,
+  PluginKey,
+  TextSelection,
+} from 'prosemirror-state';
+import {
+  type Mappable,
+  AttrStep,
+  Mapping,
+  ReplaceAroundStep,
+  ReplaceStep,
+} from 'prosemirror-transform';
+import { type EditorView, Decoration, DecorationSet } from 'prosemirror-view';
+
+import { isRemoteTransaction } from './plugin-collab';
+import { createElement } from './utils';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+// 修订模式: 文字的插入 / 删除记录为 insertion / deletion mark (见 schema),
+// 块的类型 / 属性修改和包裹记录在插件状态中, 随文档改动映射位置.
+// 代码块等不能带 mark 的文本块, 以及合并段落 / 删除整块这类没有文字可标记的删除
+// 无法记录, 修订模式下不能进行
+export type SuggestionKind = 'insert' | 'delete' | 'replace' | 'format' | 'wrap';
+
+export interface Suggestion {
+  id: string;
+  author: string;
+  time: number;
+  kind: SuggestionKind;
+  // 起始位置, 块修订为节点位置
+  from: number;
+  // 文字修订的范围
+  ranges: { from: number; to: number; type: 'insert' | 'delete' }[];
+}
+
+interface BlockSuggestion {
+  id: string;
+  author: string;
+  time: number;
+  kind: 'format' | 'wrap';
+  pos: number;
+  // 修改前的节点类型和属性, 用于拒绝时还原
+  before?: { type: string; attrs: Node['attrs'] };
+}
+
+interface SuggestionState {
+  enabled: boolean;
+  author: string;
+  blocks: BlockSuggestion[];
+}
+
+export const suggestionKey = new PluginKey<SuggestionState>('suggestion');
+
+const KIND_LABELS: { [kind in SuggestionKind]: string } = {
+  insert: '插入',
+  delete: '删除',
+  replace: '替换',
+  format: '修改格式',
+  wrap: '包裹',
+};
+
+const randomID = () => Math.random().toString(36).slice(2, 10);
+
+const getSuggestion = (state: EditorState) => suggestionKey.getState(state);
+
+// 块修订跟随节点移动 (如被包裹), 节点本身被替换或删除时丢弃
+// 不用 node decoration 记录, 因为节点换了层级后 decoration 会被丢掉
+const mapBlocks = (blocks: BlockSuggestion[], mapping: Mappable, doc: Node) => {
+  const mapped: BlockSuggestion[] = [];
+  blocks.forEach((block) => {
+    const { pos, deletedAfter } = mapping.mapResult(block.pos, 1);
+    const node = !deletedAfter && doc.nodeAt(pos);
+    if (node && !node.isInline) mapped.push({ ...block, pos });
+  });
+  return mapped;
+};
+
+// ======================================================== //
+//                        记录修订                          //
+// ======================================================== //
+// 撤销 / 重做, 远程改动, 追加的事务和处理修订本身不记录
+const shouldTrack = (tr: Transaction) =>
+  tr.docChanged &&
+  !tr.getMeta(suggestionKey) &&
+  !tr.getMeta('appendedTransaction') &&
+  !tr.getMeta('history$') &&
+  !isRemoteTransaction(tr);
+
+const hasInline = (slice: Slice) => {
+  let found = false;
+  slice.content.descendants((node) => {
+    if (node.isInline) found = true;
+    return !found;
+  });
+  return found;
+};
+
+// 片段中的行内内容是否都带有该 mark
+const allMarked = (slice: Slice, type: MarkType) => {
+  let all = true;
+  slice.content.descendants((node) => {
+    if (node.isInline && !type.isInSet(node.marks)) all = false;
+    return all;
+  });
+  return all;
+};
+
+// 范围内带 (或不带) 该 mark 的行内内容
+const inlineRanges = (
+  doc: Node,
+  from: number,
+  to: number,
+  type: MarkType,
+  marked: boolean,
+) => {
+  const ranges: [number, number][] = [];
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isInline) return true;
+    if (!!type.isInSet(node.marks) !== marked) return false;
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + node.nodeSize, to);
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === start) last[1] = end;
+    else ranges.push([start, end]);
+    return false;
+  });
+  return ranges;
+};
+
+// 代码块等不允许修订 mark 的文本块, 其中的文字改动无法记录
+const untrackable = (node: Node) => {
+  const { insertion, deletion } = node.type.schema.marks;
+  return (
+    node.inlineContent &&
+    !(node.type.allowsMarkType(insertion) && node.type.allowsMarkType(deletion))
+  );
+};
+
+// 替换 from - to 并插入 slice 时, 是否改动了这类文本块中的文字
+const changesUntrackable = (doc: Node, from: number, to: number, slice: Slice) => {
+  let found = untrackable(doc.resolve(from).parent) && hasInline(slice);
+  slice.content.descendants((node) => {
+    if (untrackable(node) && node.content.size) found = true;
+    return !found;
+  });
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (found || !node.inlineContent) return !found;
+    // 只删除块边界时不算
+    const start = pos + 1;
+    const end = pos + node.nodeSize - 1;
+    if (untrackable(node) && from < end && to > start) found = true;
+    return false;
+  });
+  return found;
+};
+
+// 删除 from - to 后, 删掉的内容能否带着删除标记放回原处
+// 合并段落只删除了块边界, 删除整块时放回的位置不在文本块中, 都无法标记;
+// 删除的全是建议插入的内容时直接删掉, 不需要标记
+const deletesUntrackable = (doc: Node, next: Node, from: number, to: number) => {
+  if (to <= from) return false;
+  const deleted = doc.slice(from, to);
+  if (!hasInline(deleted)) return true;
+  const { insertion, deletion } = doc.type.schema.marks;
+  if (allMarked(deleted, insertion)) return false;
+  return !next.resolve(from).parent.type.allowsMarkType(deletion);
+};
+
+// 修订模式下拒绝这类改动, 避免不留修订直接生效
+const rejectUntrackable = (tr: Transaction, state: EditorState) => {
+  const pluginState = getSuggestion(state);
+  if (!pluginState || !pluginState.enabled || !shouldTrack(tr)) return false;
+  return tr.steps.some((step, i) => {
+    const doc = tr.docs[i];
+    const next = i + 1 < tr.docs.length ? tr.docs[i + 1] : tr.doc;
+    if (step instanceof ReplaceStep)
+      return (
+        changesUntrackable(doc, step.from, step.to, step.slice) ||
+        deletesUntrackable(doc, next, step.from, step.to)
+      );
+    if (step instanceof ReplaceAroundStep)
+      return (
+        changesUntrackable(doc, step.from, step.gapFrom, step.slice) ||
+        changesUntrackable(doc, step.gapTo, step.to, Slice.empty)
+      );
+    return false;
+  });
+};
+
+// 紧挨着的同一作者的修订, 连续输入 / 删除时合并为一条
+const adjacentMark = (
+  doc: Node,
+  from: number,
+  to: number,
+  type: MarkType,
+  author: string,
+) => {
+  const before = doc.resolve(from).nodeBefore;
+  const after = doc.resolve(to).nodeAfter;
+  for (const node of [before, after]) {
+    const mark = node && type.isInSet(node.marks);
+    if (mark && mark.attrs.author === author) return mark;
+  }
+  return null;
+};
+
+const trackChanges = (
+  trs: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+) => {
+  const pluginState = getSuggestion(newState);
+  const { insertion, deletion } = newState.schema.marks;
+  if (!pluginState || !pluginState.enabled || !insertion || !deletion) return null;
+  if (!trs.some(shouldTrack)) return null;
+
+  // 所有事务合起来的映射, 把每个 step 的位置映射到 newState.doc
+  const mapping = new Mapping();
+  trs.forEach((tr) => mapping.appendMapping(tr.mapping));
+
+  const inserted: [number, number][] = [];
+  const removed: { pos: number; slice: Slice; backward: boolean }[] = [];
+  const blocks: Pick<BlockSuggestion, 'pos' | 'kind' | 'before'>[] = [];
+  // 已有的块修订随 step 逐步映射, 重复修改同一块时沿用最早的修改前状态
+  let previousBlocks = getSuggestion(oldState)?.blocks || [];
+  const formatBefore = (doc: Node, current: BlockSuggestion[], pos: number) => {
+    const previous = current.find(
+      (block) => block.pos === pos && block.kind === 'format',
+    );
+    if (previous) return previous.before;
+    const node = doc.nodeAt(pos);
+    return node ? { type: node.type.name, attrs: node.attrs } : undefined;
+  };
+
+  let index = 0;
+  trs.forEach((tr) => {
+    const track = shouldTrack(tr);
+    tr.steps.forEach((step, i) => {
+      const current = previousBlocks;
+      const next = i + 1 < tr.docs.length ? tr.docs[i + 1] : tr.doc;
+      previousBlocks = mapBlocks(current, step.getMap(), next);
+      const rest = mapping.slice(++index);
+      const doc = tr.docs[i];
+      if (!track) return;
+
+      if (step instanceof ReplaceStep) {
+        const { from, to, slice } = step;
+        if (slice.size)
+          inserted.push([rest.map(from, 1), rest.map(from + slice.size, -1)]);
+        // 只删除块边界的改动 (如合并段落) 已被 filterTransaction 拒绝
+        const deleted = doc.slice(from, to);
+        if (to > from && hasInline(deleted)) {
+          const { selection } = oldState;
+          const backward = index === 1 && selection.empty && selection.from === to;
+          removed.push({ pos: rest.map(from, -1), slice: deleted, backward });
+        }
+      } else if (step instanceof ReplaceAroundStep) {
+        const { from, to, gapFrom, gapTo, slice, insert } = step;
+        // setBlockType / setNodeMarkup: 只替换了节点的开始和结束
+        if (gapFrom === from + 1 && gapTo === to - 1 && insert === 1)
+          blocks.push({
+            pos: rest.map(from, 1),
+            kind: 'format',
+            before: formatBefore(doc, current, from),
+          });
+        // wrapIn: 在内容外面加了一层
+        else if (gapFrom === from && gapTo === to && slice.size)
+          blocks.push({ pos: rest.map(from, 1), kind: 'wrap' });
+      } else if (step instanceof AttrStep) {
+        blocks.push({
+          pos: rest.map(step.pos, 1),
+          kind: 'format',
+          before: formatBefore(doc, current, step.pos),
+        });
+      }
+    });
+  });
+  if (!inserted.length && !removed.length && !blocks.length) return null;
+
+  const tr = newState.tr;
+  const { author } = pluginState;
+  const time = Date.now();
+  const id = randomID();
+  // 同一次修改的插入和删除共用一个 id (替换)
+  const markFor = (type: MarkType, from: number, to: number): Mark => {
+    const adjacent = adjacentMark(tr.doc, from, to, type, author);
+    return adjacent || type.create({ id, author, time });
+  };
+
+  inserted.forEach(([from, to]) => {
+    if (from >= to) return;
+    // 在删除的文字中间输入时不继承删除标记
+    tr.removeMark(from, to, deletion);
+    tr.addMark(from, to, markFor(insertion, from, to));
+  });
+
+  let cursor: number | null = null;
+  removed
+    .sort((a, b) => b.pos - a.pos)
+    .forEach(({ pos, slice, backward }) => {
+      const at = tr.mapping.map(pos, -1);
+      // 删除别人或自己建议插入的内容时直接删掉
+      if (allMarked(slice, insertion)) return;
+      if (!tr.doc.resolve(at).parent.type.allowsMarkType(deletion)) return;
+
+      const count = tr.steps.length;
+      tr.replace(at, at, slice);
+      if (tr.steps.length === count) return;
+      const start = tr.mapping.slice(count).map(at, -1);
+      const end = tr.mapping.slice(count).map(at, 1);
+
+      const drop = inlineRanges(tr.doc, start, end, insertion, true);
+      const mark = markFor(deletion, start, end);
+      // 已经标记为删除的内容保留原来的修订
+      inlineRanges(tr.doc, start, end, deletion, false).forEach(([from, to]) =>
+        tr.addMark(from, to, mark),
+      );
+      drop.reverse().forEach(([from, to]) => tr.delete(from, to));
+      // 退格时光标停在删除内容的前面, 继续退格会删除更前面的文字
+      if (backward) cursor = start;
+    });
+  if (cursor != null) tr.setSelection(TextSelection.create(tr.doc, cursor));
+
+  // 块修订各自独立接受 / 拒绝, 单独分配 id
+  const addBlocks: BlockSuggestion[] = blocks.map(({ pos, kind, before }) => ({
+    id: randomID(),
+    author,
+    time,
+    kind,
+    pos: tr.mapping.map(pos, 1),
+    before,
+  }));
+  if (addBlocks.length) tr.setMeta(suggestionKey, { addBlocks });
+  return tr.docChanged || addBlocks.length ? tr : null;
+};
+
+// 块修订加入插件状态: 同一节点只保留一条同类修订, 改回原样时去掉
+const addBlockSuggestions = (
+  blocks: BlockSuggestion[],
+  doc: Node,
+  added: BlockSuggestion[],
+) => {
+  added.forEach((block) => {
+    const node = doc.nodeAt(block.pos);
+    if (!node) return;
+    const same = (item: BlockSuggestion) =>
+      item.pos === block.pos && item.kind === block.kind;
+    if (block.kind === 'wrap' && blocks.some(same)) return;
+    blocks = blocks.filter((item) => !same(item));
+    const before = block.before && doc.type.schema.nodes[block.before.type];
+    if (before && node.hasMarkup(before, block.before?.attrs)) return;
+    blocks = [...blocks, block];
+  });
+  return blocks;
+};
+
+// ======================================================== //
+//                        查找修订                          //
+// ======================================================== //
+export const findSuggestions = (state: EditorState): Suggestion[] => {
+  const { doc } = state;
+  const { insertion, deletion } = state.schema.marks;
+  const suggestions = new Map<string, Suggestion>();
+
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    node.marks.forEach((mark) => {
+      if (mark.type !== insertion && mark.type !== deletion) return;
+      const type = mark.type === insertion ? 'insert' : 'delete';
+      const { id, author, time } = mark.attrs;
+      let suggestion = suggestions.get(id);
+      if (!suggestion) {
+        suggestion = { id, author, time, kind: type, from: pos, ranges: [] };
+        suggestions.set(id, suggestion);
+      }
+      if (suggestion.kind !== type) suggestion.kind = 'replace';
+
+      const to = pos + node.nodeSize;
+      const last = suggestion.ranges[suggestion.ranges.length - 1];
+      // 中间只隔着块边界时合并, 接受删除时会一起合并段落
+      if (last && last.type === type && !doc.textBetween(last.to, pos, '', '\ufffc'))
+        last.to = to;
+      else suggestion.ranges.push({ from: pos, to, type });
+    });
+    return false;
+  });
+
+  const pluginState = getSuggestion(state);
+  if (pluginState)
+    pluginState.blocks.forEach(({ id, author, time, kind, pos }) => {
+      suggestions.set(id, { id, author, time, kind, from: pos, ranges: [] });
+    });
+
+  return Array.from(suggestions.values()).sort((a, b) => a.from - b.from);
+};
+
+// 光标所在的修订
+export const suggestionAt = (state: EditorState, pos: number) =>
+  findSuggestions(state)
+    .filter((suggestion) => {
+      if (!suggestion.ranges.length) {
+        const node = state.doc.nodeAt(suggestion.from);
+        return !!node && suggestion.from < pos && pos < suggestion.from + node.nodeSize;
+      }
+      return suggestion.ranges.some(({ from, to }) => from <= pos && pos <= to);
+    })
+    .pop() || null;
+
+// ======================================================== //
+//                          命令                            //
+// ======================================================== //
+export const toggleSuggestionMode: Command = (state, dispatch) => {
+  const pluginState = getSuggestion(state);
+  if (!pluginState) return false;
+  if (dispatch)
+    dispatch(state.tr.setMeta(suggestionKey, { enabled: !pluginState.enabled }));
+  return true;
+};
+
+const resolveSuggestions = (
+  filter: (suggestion: Suggestion) => boolean,
+  accept: boolean,
+): Command => {
+  return (state, dispatch) => {
+    const suggestions = findSuggestions(state).filter(filter);
+    if (!suggestions.length) return false;
+    if (dispatch) {
+      const { schema } = state;
+      const tr = state.tr;
+      const actions: { pos: number; run: () => void }[] = [];
+
+      suggestions.forEach((suggestion) => {
+        suggestion.ranges.forEach(({ from, to, type }) => {
+          const keep = (type === 'insert') === accept;
+          const markType =
+            type === 'insert' ? schema.marks.insertion : schema.marks.deletion;
+          actions.push({
+            pos: from,
+            run: () => {
+              const start = tr.mapping.map(from, 1);
+              const end = tr.mapping.map(to, -1);
+              if (keep) tr.removeMark(start, end, markType);
+              else tr.delete(start, end);
+            },
+          });
+        });
+        if (suggestion.ranges.length || accept) return;
+
+        // 拒绝块修订: 还原节点类型和属性, 或去掉外层包裹
+        const block = getSuggestion(state)?.blocks.find(({ id }) => id === suggestion.id);
+        if (!block) return;
+        actions.push({
+          pos: block.pos,
+          run: () => {
+            const pos = tr.mapping.map(block.pos, 1);
+            const node = tr.doc.nodeAt(pos);
+            if (!node) return;
+            if (block.kind === 'format' && block.before) {
+              const type = schema.nodes[block.before.type];
+              if (type && type.validContent(node.content))
+                tr.setNodeMarkup(pos, type, block.before.attrs);
+              return;
+            }
+            const $pos = tr.doc.resolve(pos);
+            const index = $pos.index();
+            // 保留内部节点, 内部的块修订继续有效
+            if (node.childCount && $pos.parent.canReplace(index, index + 1, node.content))
+              tr.step(
+                new ReplaceAroundStep(
+                  pos,
+                  pos + node.nodeSize,
+                  pos + 1,
+                  pos + node.nodeSize - 1,
+                  Slice.empty,
+                  0,
+                  true,
+                ),
+              );
+          },
+        });
+      });
+
+      // 从后往前处理, 前面的位置不受影响
+      actions.sort((a, b) => b.pos - a.pos).forEach(({ run }) => run());
+      dispatch(tr.setMeta(suggestionKey, { resolved: suggestions.map(({ id }) => id) }));
+    }
+    return true;
+  };
+};
+
+export const acceptSuggestion = (suggestion: Suggestion) =>
+  resolveSuggestions(({ id }) => id === suggestion.id, true);
+
+export const rejectSuggestion = (suggestion: Suggestion) =>
+  resolveSuggestions(({ id }) => id === suggestion.id, false);
+
+export const acceptAllSuggestions = resolveSuggestions(() => true, true);
+export const rejectAllSuggestions = resolveSuggestions(() => true, false);
+
+export const suggestionMenuItems = () => [
+  new MenuItem({
+    title: '修订模式: 修改记录为建议',
+    label: '修订',
+    active: (state) => !!getSuggestion(state)?.enabled,
+    enable: (state) => toggleSuggestionMode(state),
+    run: toggleSuggestionMode,
+  }),
+  new MenuItem({
+    title: '接受全部修订',
+    label: '全部接受',
+    enable: (state) => acceptAllSuggestions(state),
+    run: acceptAllSuggestions,
+  }),
+  new MenuItem({
+    title: '拒绝全部修订',
+    label: '全部拒绝',
+    enable: (state) => rejectAllSuggestions(state),
+    run: rejectAllSuggestions,
+  }),
+];
+
+// ======================================================== //
+//                        修订浮层                          //
+// ======================================================== //
+class SuggestionTooltip {
+  dom: HTMLElement;
+  info: HTMLElement;
+  view: EditorView;
+  suggestion: Suggestion | null = null;
+  onScroll: () => void;
+
+  constructor(view: EditorView) {
+    this.view = view;
+    this.dom = document.body.appendChild(createElement('div', 'yl-suggestion-tooltip'));
+    this.dom.style.display = 'none';
+    // 保持编辑器焦点
+    this.dom.addEventListener('mousedown', (e) => e.preventDefault());
+    this.info = this.dom.appendChild(createElement('span', 'yl-suggestion-tooltip-info'));
+
+    [
+      { label: '接受', command: acceptSuggestion },
+      { label: '拒绝', command: rejectSuggestion },
+    ].forEach(({ label, command }) => {
+      const button = createElement('span', 'yl-suggestion-tooltip-item', label);
+      button.addEventListener('click', () => {
+        if (!this.suggestion) return;
+        command(this.suggestion)(this.view.state, this.view.dispatch);
+        this.view.focus();
+      });
+      this.dom.appendChild(button);
+    });
+
+    this.onScroll = () => this.update(this.view);
+    window.addEventListener('scroll', this.onScroll, true);
+    this.update(view);
+  }
+
+  update(view: EditorView) {
+    this.view = view;
+    const { state } = view;
+    const suggestion = view.editable ? suggestionAt(state, state.selection.head) : null;
+    this.suggestion = suggestion;
+    if (!suggestion) {
+      this.dom.style.display = 'none';
+      return;
+    }
+    const { author, time, kind } = suggestion;
+    this.info.textContent = `${author} ${KIND_LABELS[kind]} · ${new Date(
+      time,
+    ).toLocaleString()}`;
+
+    const coords = view.coordsAtPos(state.selection.head);
+    this.dom.style.display = '';
+    this.dom.style.top = coords.bottom + 4 + 'px';
+    this.dom.style.left = coords.left + 'px';
+  }
+
+  destroy() {
+    window.removeEventListener('scroll', this.onScroll, true);
+    this.dom.remove();
+  }
+}
+
+export const suggestionPlugin = (options: { author: string; enabled?: boolean }) => {
+  return new Plugin<SuggestionState>({
+    key: suggestionKey,
+    state: {
+      init() {
+        return {
+          enabled: !!options.enabled,
+          author: options.author,
+          blocks: [],
+        };
+      },
+      apply(tr, prev) {
+        const meta = tr.getMeta(suggestionKey);
+        let { enabled, blocks } = prev;
+        if (tr.docChanged) blocks = mapBlocks(blocks, tr.mapping, tr.doc);
+        if (meta && meta.enabled != null) enabled = meta.enabled;
+        if (meta && meta.addBlocks)
+          blocks = addBlockSuggestions(blocks, tr.doc, meta.addBlocks);
+        if (meta && meta.resolved) {
+          const resolved: string[] = meta.resolved;
+          blocks = blocks.filter(({ id }) => !resolved.includes(id));
+        }
+        if (enabled === prev.enabled && blocks === prev.blocks) return prev;
+        return { ...prev, enabled, blocks };
+      },
+    },
+    filterTransaction: (tr, state) => !rejectUntrackable(tr, state),
+    appendTransaction: trackChanges,
+    view: (view) => new SuggestionTooltip(view),
+    props: {
+      decorations(state) {
+        const blocks = getSuggestion(state)?.blocks;
+        if (!blocks || !blocks.length) return null;
+        const decorations: Decoration[] = [];
+        blocks.forEach(({ pos, kind }) => {
+          const node = state.doc.nodeAt(pos);
+          if (!node) return;
+          decorations.push(
+            Decoration.node(pos, pos + node.nodeSize, {
+              class: `yl-suggestion-block yl-suggestion-${kind}`,
+            }),
+          );
+        });
+        return DecorationSet.create(state.doc, decorations);
+      },
+      attributes(state): { [name: string]: string } {
+        return getSuggestion(state)?.enabled ? { class: 'yl-suggesting' } : {};
+      },
+    },
+  });
+};
@@ -0,0 +1,76 @@
+import { type Node } from 'prosemirror-model';
+import { Plugin, PluginKey } from 'prosemirror-state';
+import {
+  type EditorView,
+  type NodeView,
+  type ViewMutationRecord,
+} from 'prosemirror-view';
+
+import { createElement } from './utils';
+
+// 任务项: 勾选框通过事务修改 checked 属性, 可以撤销
+class TaskItemView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  checkbox: HTMLInputElement;
+  node: Node;
+
+  constructor(node: Node, view: EditorView, getPos: () => number | undefined) {
+    this.node = node;
+    this.dom = createElement('li', 'task-item');
+    this.dom.dataset.type = 'task-item';
+
+    this.checkbox = document.createElement('input');
+    this.checkbox.type = 'checkbox';
+    this.checkbox.contentEditable = 'false';
+    this.checkbox.addEventListener('mousedown', (e) => e.preventDefault());
+    this.checkbox.addEventListener('change', () => {
+      const pos = getPos();
+      if (pos == null || !view.editable) {
+        this.checkbox.checked = this.node.attrs.checked;
+        return;
+      }
+      view.dispatch(
+        view.state.tr.setNodeAttribute(pos, 'checked', this.checkbox.checked),
+      );
+    });
+
+    this.contentDOM = createElement('div', 'task-item-content');
+    this.dom.appendChild(this.checkbox);
+    this.dom.appendChild(this.contentDOM);
+    this.render();
+  }
+
+  render() {
+    const { checked } = this.node.attrs;
+    this.checkbox.checked = checked;
+    this.dom.dataset.checked = String(checked);
+  }
+
+  update(node: Node) {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  stopEvent(event: Event) {
+    return event.target === this.checkbox;
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord) {
+    if (mutation.target === this.checkbox) return true;
+    return mutation.type === 'attributes' && mutation.target === this.dom;
+  }
+}
+
+export const taskListPlugin = () => {
+  return new Plugin({
+    key: new PluginKey('taskList'),
+    props: {
+      nodeViews: {
+        task_item: (node, view, getPos) => new TaskItemView(node, view, getPos),
+      },
+    },
+  });
+};
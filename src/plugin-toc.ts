@@ -3,13 +3,14 @@ import {
   type EditorStateConfig,
   Plugin,
   PluginKey,
+  TextSelection,
   type Transaction,
 } from 'prosemirror-state';
 import { type Node } from 'prosemirror-model';
-import { Decoration, DecorationSet } from 'prosemirror-view';
+import { Decoration, DecorationSet, type EditorView } from 'prosemirror-view';
 import { createElement } from './utils';
-// @ts-ignore
 import { isEqual } from 'lodash';
+import { getFoldedIds, toggleFold } from './plugin-fold';
 
 export interface TocOptions {
   // The maximum number of characters that should be allowed. Defaults to `0`.
@@ -20,18 +21,43 @@ export interface TocOptions {
 interface HeadingData {
   gradeType: number[];
   headingMatches: Object[];
+  // 点击目录后短暂高亮的标题
+  highlightId?: string | null;
 }
 
+export const tocPluginKey = new PluginKey('toc');
+// 高亮动画持续时间
+const HIGHLIGHT_DURATION = 1500;
+// 标题顶部进入视口上方该距离内即视为当前标题
+const ACTIVE_OFFSET = 80;
+
+// 根据 id 找到顶层标题的位置
+const findHeading = (doc: Node, id: string) => {
+  let result: { node: Node; pos: number } | null = null;
+  doc.forEach((node, pos) => {
+    if (!result && node.type.name === 'heading' && node.attrs.id === id)
+      result = { node, pos };
+  });
+  return result as { node: Node; pos: number } | null;
+};
+
 class Toc {
   readonly options: TocOptions;
   renderList: any;
   tocContainer: HTMLElement;
   tocBody: HTMLElement;
+  view: EditorView | null;
+  // 当前视口所在的标题
+  activeId: string | null;
+  highlightTimer: number;
 
   constructor(options: TocOptions) {
     console.log('[plugin] toc options: ', options);
     this.options = options;
     this.renderList = {};
+    this.view = null;
+    this.activeId = null;
+    this.highlightTimer = 0;
     this.tocContainer = createElement('div', 'yl-toc-container');
     this.tocBody = createElement('div', 'yl-toc-body');
     this.tocContainer.appendChild(this.tocBody);
@@ -58,7 +84,7 @@ class Toc {
     return { gradeType, headingMatches };
   }
 
-  rederToc(data: any) {
+  rederToc(data: any, foldedIds: string[] = []) {
     this.tocBody.innerHTML = '';
     const { gradeType, headingMatches } = data;
 
@@ -103,11 +129,14 @@ class Toc {
       itemDom.dataset.id = id;
       itemDom.dataset.level = level;
       itemDom.dataset.collapseAbility = String(collapseAbility);
+      if (id === this.activeId) itemDom.classList.add('yl-toc-item-active');
+      const folded = foldedIds.includes(id);
+      if (folded) itemDom.classList.add('yl-toc-item-collapsed');
       // [DOM] 折叠展开
       const collapseSvgDom = createElement(
         'span',
         'item-collapse-svg',
-        collapseAbility ? '>' : '',
+        collapseAbility ? (folded ? '>' : 'v') : '',
       );
       // [DOM] 标题内容
       const textDom = createElement('span', 'item-text-content', textContent);
@@ -125,12 +154,62 @@ class Toc {
     // @ts-ignore
     const { id, level, collapseAbility } = item.dataset;
     if (collapseAbility === 'true')
-      collapseSvgDom.addEventListener('click', () => {
-        console.log('[toc] click collapse svg...');
-      });
-    textDom.addEventListener('click', () => {
-      console.log('[toc] click toc item content: ', id, level);
-      // TODO: 1. 指定h标签滚动到顶部 2. h标签需要一个高亮显示隐藏动画
+      collapseSvgDom.addEventListener('click', () => this.toggleHeadingFold(id));
+    textDom.addEventListener('click', () => this.scrollToHeading(id));
+  }
+
+  // 折叠 / 展开标题下的内容
+  toggleHeadingFold(id: string) {
+    const { view } = this;
+    if (!view) return;
+    const heading = findHeading(view.state.doc, id);
+    if (heading) toggleFold(heading.pos)(view.state, view.dispatch);
+  }
+
+  // 选中并滚动到指定标题, 同时短暂高亮
+  scrollToHeading(id: string) {
+    const { view } = this;
+    if (!view) return;
+    const heading = findHeading(view.state.doc, id);
+    if (!heading) return;
+
+    const { state } = view;
+    view.dispatch(
+      state.tr
+        .setSelection(TextSelection.create(state.doc, heading.pos + 1))
+        .setMeta(tocPluginKey, { highlightId: id }),
+    );
+    view.focus();
+    const dom = view.nodeDOM(heading.pos);
+    if (dom instanceof HTMLElement)
+      dom.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+    window.clearTimeout(this.highlightTimer);
+    this.highlightTimer = window.setTimeout(() => {
+      if (this.view)
+        this.view.dispatch(
+          this.view.state.tr.setMeta(tocPluginKey, { highlightId: null }),
+        );
+    }, HIGHLIGHT_DURATION);
+  }
+
+  // 根据标题在视口中的位置更新目录激活项
+  updateActive() {
+    const { view } = this;
+    if (!view) return;
+    let activeId: string | null = null;
+    view.state.doc.forEach((node, pos) => {
+      if (node.type.name !== 'heading' || !node.textContent) return;
+      const dom = view.nodeDOM(pos);
+      if (!(dom instanceof HTMLElement)) return;
+      if (activeId === null || dom.getBoundingClientRect().top <= ACTIVE_OFFSET)
+        activeId = node.attrs.id;
+    });
+    if (activeId === this.activeId) return;
+
+    this.activeId = activeId;
+    this.tocBody.querySelectorAll<HTMLElement>('.yl-toc-item').forEach((item) => {
+      item.classList.toggle('yl-toc-item-active', item.dataset.id === activeId);
     });
   }
 }
@@ -139,23 +218,69 @@ export const TocPlugin = (options: TocOptions) => {
   const plugin = new Toc(options);
 
   return new Plugin({
-    key: new PluginKey('toc'),
+    key: tocPluginKey,
     state: {
-      init(config: EditorStateConfig, instance: EditorState) {
-        return plugin.updateToc(instance.doc);
+      init(config: EditorStateConfig, instance: EditorState): HeadingData {
+        return { ...plugin.updateToc(instance.doc), highlightId: null };
       },
-      apply(tr, prev) {
+      apply(tr, prev: HeadingData) {
         const node = tr.doc;
-        return { ...prev, ...plugin.updateToc(node) };
+        const meta = tr.getMeta(tocPluginKey);
+        const highlightId = meta ? meta.highlightId : prev.highlightId;
+        return { ...prev, ...plugin.updateToc(node), highlightId };
       },
     },
+    view(editorView) {
+      plugin.view = editorView;
+      let frame = 0;
+      const onScroll = () => {
+        if (frame) return;
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          plugin.updateActive();
+        });
+      };
+      // 捕获阶段监听, 编辑器放在滚动容器里时也能收到
+      window.addEventListener('scroll', onScroll, true);
+      window.addEventListener('resize', onScroll);
+      plugin.updateActive();
+
+      return {
+        update() {
+          plugin.updateActive();
+        },
+        destroy() {
+          window.removeEventListener('scroll', onScroll, true);
+          window.removeEventListener('resize', onScroll);
+          cancelAnimationFrame(frame);
+          window.clearTimeout(plugin.highlightTimer);
+          plugin.view = null;
+        },
+      };
+    },
     props: {
       decorations(editorState) {
-        return DecorationSet.create(editorState.doc, [
-          Decoration.widget(editorState.doc.content.size, () =>
-            plugin.rederToc(this.getState(editorState)),
+        const data = this.getState(editorState) as HeadingData;
+        const decorations = [
+          Decoration.widget(
+            editorState.doc.content.size,
+            () => plugin.rederToc(data, getFoldedIds(editorState)),
+            {
+              side: 1,
+              ignoreSelection: true,
+              stopEvent: () => true,
+            },
           ),
-        ]);
+        ];
+        const heading =
+          data.highlightId && findHeading(editorState.doc, data.highlightId);
+        if (heading)
+          decorations.push(
+            Decoration.node(heading.pos, heading.pos + heading.node.nodeSize, {
+              class: 'yl-toc-heading-highlight',
+            }),
+          );
+        return DecorationSet.create(editorState.doc, decorations);
       },
     },
   });
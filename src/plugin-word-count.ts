@@ -5,16 +5,155 @@ import {
   PluginKey,
   type Transaction,
 } from 'prosemirror-state';
-import { type Node } from 'prosemirror-model';
+import { Fragment, type Node, Slice } from 'prosemirror-model';
 import { Decoration, DecorationSet } from 'prosemirror-view';
 
+import { isRemoteTransaction } from './plugin-collab';
+
 export interface WordCountOptions {
-  // The maximum number of characters that should be allowed. Defaults to `0`.
+  // The maximum size that should be allowed, input beyond it is blocked. Defaults to `0`.
   limit: number | null | undefined;
-  // The mode by which the size is calculated. Defaults to 'textSize'.
+  // The size after which a warning is shown and the overflowing text is decorated,
+  // without blocking input.
+  softLimit?: number | null;
+  // The unit both limits are expressed in. Defaults to 'characters'.
+  unit?: 'characters' | 'words';
+  // The mode by which the character size is calculated. Defaults to 'textSize'.
   mode: 'textSize' | 'nodeSize';
+  // Reading speed for Latin words. Defaults to `200` words per minute.
+  wordsPerMinute?: number;
+  // Reading speed for CJK characters. Defaults to `300` characters per minute.
+  cjkCharsPerMinute?: number;
+}
+
+export interface WordCountStats {
+  characters: number;
+  words: number;
+  paragraphs: number;
+  sentences: number;
+  // Estimated reading time in minutes.
+  readingTime: number;
+}
+
+export interface WordCountState extends WordCountStats {
+  // Statistics of the current selection, `null` when the selection is empty.
+  selection: WordCountStats | null;
 }
 
+// 中日韩文字逐字计数
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const SENTENCE_END = /[.!?。！？…]+/;
+
+const hasSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+const wordSegmenter = hasSegmenter
+  ? new Intl.Segmenter(undefined, { granularity: 'word' })
+  : null;
+const sentenceSegmenter = hasSegmenter
+  ? new Intl.Segmenter(undefined, { granularity: 'sentence' })
+  : null;
+
+const CJK_CHAR = new RegExp(CJK.source, 'u');
+// 行内叶子节点 (图片等) 在扁平文本里的占位符
+const LEAF_CHAR = '\ufffc';
+
+// 每个"词"在文本中的起始位置, 中日韩文字每个字算一个词
+const wordStarts = (text: string) => {
+  const starts: { index: number; cjk: boolean }[] = [];
+  const pushSegment = (segment: string, index: number) => {
+    let inWord = false;
+    for (const char of segment) {
+      if (CJK_CHAR.test(char)) {
+        starts.push({ index, cjk: true });
+        inWord = false;
+      } else if (!inWord) {
+        starts.push({ index, cjk: false });
+        inWord = true;
+      }
+      index += char.length;
+    }
+  };
+
+  if (wordSegmenter) {
+    for (const { segment, index, isWordLike } of wordSegmenter.segment(text))
+      if (isWordLike) pushSegment(segment, index);
+  } else {
+    for (const match of text.matchAll(/[^\s\p{P}\p{S}\ufffc]+/gu))
+      pushSegment(match[0], match.index as number);
+  }
+  return starts;
+};
+
+// 把每个文本块的行内内容拼成字符串, 叶子节点占一个字符
+const flatten = (fragment: Fragment) => {
+  const chunks: string[] = [];
+  const walk = (node: Node) => {
+    if (node.isTextblock) {
+      let text = '';
+      node.forEach((child) => (text += child.isText ? child.text : LEAF_CHAR));
+      chunks.push(text);
+    } else if (node.isInline) {
+      chunks.push(node.isText ? (node.text as string) : LEAF_CHAR);
+    } else {
+      node.forEach(walk);
+    }
+  };
+  fragment.forEach(walk);
+  return chunks;
+};
+
+// 只保留 fragment 中前 budget.left 个字符, 保留 mark 和结构
+const truncateFragment = (fragment: Fragment, budget: { left: number }) => {
+  const children: Node[] = [];
+  for (let i = 0; i < fragment.childCount && budget.left > 0; i++) {
+    const child = fragment.child(i);
+    if (child.isText) {
+      const text = (child.text as string).slice(0, budget.left);
+      budget.left -= text.length;
+      children.push(child.type.schema.text(text, child.marks));
+    } else if (child.isLeaf) {
+      budget.left -= 1;
+      children.push(child);
+    } else {
+      const content = truncateFragment(child.content, budget);
+      children.push(
+        child.type.createAndFill(child.attrs, content, child.marks) ||
+          child.copy(content),
+      );
+    }
+  }
+  return Fragment.fromArray(children);
+};
+
+// 末尾一串节点中可以保持开放的深度
+const maxOpenEnd = (fragment: Fragment) => {
+  let depth = 0;
+  for (let node = fragment.lastChild; node && !node.isLeaf; node = node.lastChild)
+    depth++;
+  return depth;
+};
+
+const truncateSlice = (slice: Slice, keep: number) => {
+  if (keep <= 0) return Slice.empty;
+  const content = truncateFragment(slice.content, { left: keep });
+  return new Slice(
+    content,
+    slice.openStart,
+    Math.min(slice.openEnd, maxOpenEnd(content)),
+  );
+};
+
+// 截断到 slice.size 不超过 size: 块的边界也占位置, 只能逐步尝试保留的字符数
+const truncateSliceToSize = (slice: Slice, characters: number, size: number) => {
+  let low = 0,
+    high = characters;
+  while (low < high) {
+    const keep = Math.ceil((low + high) / 2);
+    if (truncateSlice(slice, keep).size <= size) low = keep;
+    else high = keep - 1;
+  }
+  return truncateSlice(slice, low);
+};
+
 class WordCount {
   readonly options: WordCountOptions;
 
@@ -22,58 +161,149 @@ class WordCount {
     this.options = options;
   }
 
-  calcStorage(node: Node) {
+  calcStorage(node: Node): WordCountStats {
+    const text = node.textBetween(0, node.content.size, '\n', ' ');
+    let paragraphs = 0;
+    node.descendants((child) => {
+      if (!child.isTextblock) return true;
+      if (child.textContent.trim()) paragraphs++;
+      return false;
+    });
+
     return {
+      ...this.textStats(text),
       characters: this.characters(node),
-      words: this.words(node),
+      paragraphs,
+    };
+  }
+
+  // 选区统计, 空选区返回 null
+  calcSelection(state: EditorState): WordCountStats | null {
+    const { from, to, empty } = state.selection;
+    if (empty) return null;
+
+    const text = state.doc.textBetween(from, to, '\n', ' ');
+    let paragraphs = 0;
+    state.doc.nodesBetween(from, to, (child, pos) => {
+      if (!child.isTextblock) return true;
+      const start = Math.max(from, pos + 1);
+      const end = Math.min(to, pos + child.nodeSize - 1);
+      if (start < end && state.doc.textBetween(start, end, '', ' ').trim()) paragraphs++;
+      return false;
+    });
+
+    return {
+      ...this.textStats(text),
+      characters: text.replace(/\n/g, '').length,
+      paragraphs,
     };
   }
 
+  // 按配置的单位计算文档大小
+  size(node: Node) {
+    if (this.options.unit === 'words')
+      return this.textStats(node.textBetween(0, node.content.size, '\n', ' ')).words;
+    return this.characters(node);
+  }
+
   filterTransactionByLimit(transaction: Transaction, state: EditorState) {
     const { limit }: { limit: any } = this.options;
 
-    const oldSize = this.characters(state.doc);
-    const newSize = this.characters(transaction.doc);
+    const oldSize = this.size(state.doc);
+    const newSize = this.size(transaction.doc);
 
     // Everything is in the limit. Good.
     if (newSize <= limit) {
       return true;
     }
 
-    // The limit has already been exceeded but will be reduced.
-    if (oldSize > limit && newSize > limit && newSize <= oldSize) {
-      return true;
+    // The limit has already been exceeded, only allow reducing it.
+    // Pasted content has already been truncated by `truncatePasted`.
+    return newSize <= oldSize;
+  }
+
+  // 粘贴前截掉超出上限的部分, 只删除文字, 保留 mark 和结构
+  truncatePasted(slice: Slice, state: EditorState) {
+    const { limit, unit, mode } = this.options;
+    if (!limit) return slice;
+
+    const { from, to } = state.selection;
+    const chunks = flatten(slice.content);
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    if (unit === 'words') {
+      const replaced = this.words(state.doc.textBetween(from, to, '\n', ' '));
+      const available = limit - this.size(state.doc) + replaced.cjk + replaced.latin;
+      const cut = this.cutOffset(chunks, available);
+      return cut === null ? slice : truncateSlice(slice, cut);
     }
 
-    // The limit has already been exceeded and will be increased further.
-    if (oldSize > limit && newSize > limit && newSize > oldSize) {
-      return false;
+    if (mode === 'textSize') {
+      const replaced = state.doc.textBetween(from, to, undefined, ' ').length;
+      const available = limit - this.characters(state.doc) + replaced;
+      return total > available ? truncateSlice(slice, available) : slice;
     }
 
-    const isPaste = transaction.getMeta('paste');
+    // nodeSize 以文档位置计数, 按 slice.size 截断而不是按字符数
+    const available = limit - (state.doc.nodeSize - (to - from));
+    return slice.size > available ? truncateSliceToSize(slice, total, available) : slice;
+  }
 
-    // Block all exceeding transactions that were not pasted.
-    if (!isPaste) {
-      return false;
-    }
+  // 超出软上限的文字在文档中的起始位置, 未超出时返回 null
+  overflowPos(doc: Node) {
+    const { softLimit, unit, mode } = this.options;
+    if (!softLimit || this.size(doc) <= softLimit) return null;
+    if (unit !== 'words' && mode === 'nodeSize')
+      return this.overflowPosBySize(doc, softLimit);
 
-    // For pasted content, we try to remove the exceeding content.
-    const pos = transaction.selection.$head.pos;
-    const over = newSize - limit;
-    const from = pos - over;
-    const to = pos;
+    const cut =
+      unit === 'words' ? this.cutOffset(flatten(doc.content), softLimit) : softLimit;
+    if (cut === null) return null;
 
-    // It’s probably a bad idea to mutate transactions within `filterTransaction`
-    // but for now this is working fine.
-    transaction.deleteRange(from, to);
+    let offset = 0,
+      result: number | null = null;
+    doc.descendants((node, pos) => {
+      if (result !== null) return false;
+      if (!node.isInline) return true;
+      const length = node.isText ? (node.text as string).length : 1;
+      if (offset + length > cut) result = pos + (node.isText ? cut - offset : 0);
+      offset += length;
+      return false;
+    });
+    return result;
+  }
+
+  // nodeSize 以文档位置计数: 在 q 处截断并闭合各层节点后, 文档大小为 q + 深度 + 2,
+  // 第一个放不下的行内内容即为超出的起点. 只是结构超出时返回文档末尾
+  private overflowPosBySize(doc: Node, size: number) {
+    let result: number | null = null;
+    doc.descendants((node, pos) => {
+      if (result !== null) return false;
+      if (!node.isInline) return true;
+      const keep = size - 2 - doc.resolve(pos).depth;
+      if (pos + node.nodeSize > keep) result = node.isText ? Math.max(pos, keep) : pos;
+      return false;
+    });
+    return result === null ? doc.content.size : result;
+  }
 
-    // In some situations, the limit will continue to be exceeded after trimming.
-    // This happens e.g. when truncating within a complex node (e.g. table)
-    // and ProseMirror has to close this node again.
-    // If this is the case, we prevent the transaction completely.
-    const updatedSize = this.characters(transaction.doc);
+  // 保留前 keep 个单位时的截断位置 (扁平文本中的字符偏移), 不需要截断时返回 null
+  private cutOffset(chunks: string[], keep: number) {
+    if (this.options.unit !== 'words') {
+      const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      return total > keep ? Math.max(0, keep) : null;
+    }
+    if (keep <= 0) return 0;
 
-    return updatedSize <= limit;
+    let count = 0,
+      base = 0;
+    for (const chunk of chunks) {
+      const starts = wordStarts(chunk);
+      if (count + starts.length > keep) return base + starts[keep - count].index;
+      count += starts.length;
+      base += chunk.length;
+    }
+    return null;
   }
 
   private characters(node: Node) {
@@ -88,11 +318,32 @@ class WordCount {
     return node.nodeSize;
   }
 
-  private words(node: Node) {
-    const text: string = node.textBetween(0, node.content.size, ' ', ' ');
-    const words = text.split(' ').filter((word) => word !== '');
+  private textStats(text: string) {
+    const { wordsPerMinute = 200, cjkCharsPerMinute = 300 } = this.options;
+    const { cjk, latin } = this.words(text);
+    const minutes = cjk / cjkCharsPerMinute + latin / wordsPerMinute;
+
+    return {
+      words: cjk + latin,
+      sentences: this.sentences(text),
+      readingTime: minutes ? Math.max(1, Math.round(minutes)) : 0,
+    };
+  }
+
+  // 中日韩文字按字计数, 其他语言按词计数
+  private words(text: string) {
+    const starts = wordStarts(text);
+    const cjk = starts.filter((start) => start.cjk).length;
 
-    return words.length;
+    return { cjk, latin: starts.length - cjk };
+  }
+
+  private sentences(text: string) {
+    const segments = sentenceSegmenter
+      ? Array.from(sentenceSegmenter.segment(text), ({ segment }) => segment)
+      : text.split(new RegExp(`(?<=${SENTENCE_END.source})|\n`));
+
+    return segments.filter((segment) => /[\p{L}\p{N}]/u.test(segment)).length;
   }
 }
 
@@ -106,6 +357,8 @@ export const wordCountPlugin = (options: WordCountOptions) => {
       const { limit } = plugin.options;
       // Nothing has changed or no limit is defined. Ignore it.
       if (!transaction.docChanged || !limit) return true;
+      // Remote steps are already confirmed by the collab authority and must apply.
+      if (isRemoteTransaction(transaction)) return true;
 
       return plugin.filterTransactionByLimit(transaction, state);
     },
@@ -114,9 +367,12 @@ export const wordCountPlugin = (options: WordCountOptions) => {
        * 插件初始化
        * @returns {Object}
        */
-      init(config: EditorStateConfig, instance: EditorState) {
+      init(config: EditorStateConfig, instance: EditorState): WordCountState {
         // console.log('init: ', plugin.calcStorage(instance.doc));
-        return plugin.calcStorage(instance.doc);
+        return {
+          ...plugin.calcStorage(instance.doc),
+          selection: plugin.calcSelection(instance),
+        };
       },
 
       /**
@@ -125,36 +381,68 @@ export const wordCountPlugin = (options: WordCountOptions) => {
        * @param {Object} prev
        * @returns {Object}
        */
-      apply(tr, prev) {
+      apply(tr, prev: WordCountState, oldState, newState): WordCountState {
         const node = tr.doc;
         // console.log('apply: ', prev, plugin.calcStorage(node), {
         //   ...prev,
         //   ...plugin.calcStorage(node),
         // });
-        return { ...prev, ...plugin.calcStorage(node) };
+        if (!tr.docChanged && !tr.selectionSet) return prev;
+        return {
+          ...prev,
+          ...(tr.docChanged ? plugin.calcStorage(node) : {}),
+          selection: plugin.calcSelection(newState),
+        };
       },
     },
     props: {
+      transformPasted(slice, view) {
+        return plugin.truncatePasted(slice, view.state);
+      },
       /**
        * 初始化 / 状态变化 建立装饰器
        * @param {EditorState} editorState
        * @returns {?DecorationSet}
        */
       decorations(editorState) {
-        return DecorationSet.create(editorState.doc, [
-          Decoration.widget(editorState.doc.content.size, () => {
-            // @ts-ignore
-            const { characters } = this.getState(editorState);
+        const { doc } = editorState;
+        const { limit, softLimit, unit } = plugin.options;
+        const overflowPos = plugin.overflowPos(doc);
+        const decorations = [
+          Decoration.widget(doc.content.size, () => {
+            const { characters, words, readingTime, selection } = this.getState(
+              editorState,
+            ) as WordCountState;
+            const size = unit === 'words' ? words : characters;
             const widgetNode = document.createElement('div');
             // adding customized class for client customizing the style of widget content
             widgetNode.classList.add('counter-widget');
-            widgetNode.appendChild(
-              document.createTextNode(`${characters}/${plugin.options.limit} Characters`),
-            );
+            if (overflowPos !== null) widgetNode.classList.add('counter-widget-warning');
+            const texts = [
+              `${size}/${limit || softLimit} ${
+                unit === 'words' ? 'Words' : 'Characters'
+              }`,
+              `${words} Words`,
+              `${readingTime} min read`,
+            ];
+            if (selection)
+              texts.push(
+                `Selected: ${selection.characters} Characters, ${selection.words} Words`,
+              );
+            if (overflowPos !== null) texts.push(`Over the limit of ${softLimit}`);
+            widgetNode.appendChild(document.createTextNode(texts.join(' · ')));
 
             return widgetNode;
           }),
-        ]);
+        ];
+        // 超出软上限的文字
+        if (overflowPos !== null && overflowPos < doc.content.size)
+          decorations.push(
+            Decoration.inline(overflowPos, doc.content.size, {
+              class: 'word-count-overflow',
+            }),
+          );
+        return DecorationSet.create(doc, decorations);
       },
     },
   });
@@ -0,0 +1,471 @@
+import { DOMOutputSpec, MarkSpec, NodeSpec, Schema } from 'prosemirror-model';
+import { addListNodes } from 'prosemirror-schema-list';
+import { tableNodes } from 'prosemirror-tables';
+
+import { getSticker, STICKER_NAME } from './stickers';
+
+const pDOM: DOMOutputSpec = ['p', 0];
+const blockquoteDOM: DOMOutputSpec = ['blockquote', 0];
+const hrDOM: DOMOutputSpec = ['hr'];
+const preDOM: DOMOutputSpec = ['pre', ['code', 0]];
+const brDOM: DOMOutputSpec = ['br'];
+const emDOM: DOMOutputSpec = ['em', 0];
+const strongDOM: DOMOutputSpec = ['strong', 0];
+const codeDOM: DOMOutputSpec = ['code', 0];
+
+// 代码块语言: 优先读 <code class="language-xx">, 其次 pre 上的 class / data-language
+const LANGUAGE_CLASS = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/;
+const parseLanguage = (dom: HTMLElement) => {
+  const code = dom.querySelector('code');
+  const match =
+    (code && LANGUAGE_CLASS.exec(code.className)) || LANGUAGE_CLASS.exec(dom.className);
+  return match ? match[1] : dom.getAttribute('data-language') || null;
+};
+
+const suggestionMark = (tag: string, className: string): MarkSpec => ({
+  attrs: {
+    id: {},
+    author: { default: '' },
+    time: { default: 0 },
+  },
+  inclusive: false,
+  parseDOM: [
+    {
+      tag: `${tag}[data-suggestion-id]`,
+      getAttrs(dom: HTMLElement) {
+        return {
+          id: dom.getAttribute('data-suggestion-id'),
+          author: dom.getAttribute('data-author') || '',
+          time: Number(dom.getAttribute('data-time')) || 0,
+        };
+      },
+    },
+  ],
+  toDOM(mark) {
+    const { id, author, time } = mark.attrs;
+    return [
+      tag,
+      {
+        class: className,
+        'data-suggestion-id': id,
+        'data-author': author,
+        'data-time': String(time),
+        title: `${author} · ${new Date(time).toLocaleString()}`,
+      },
+      0,
+    ];
+  },
+});
+
+export const schema = new Schema({
+  nodes: {
+    doc: {
+      content: '(block | highlightBlock)+',
+    } as NodeSpec,
+    paragraph: {
+      content: 'inline*',
+      group: 'block',
+      parseDOM: [{ tag: 'p' }],
+      toDOM() {
+        return pDOM;
+      },
+    } as NodeSpec,
+    // 引用
+    blockquote: {
+      content: 'block+',
+      group: 'block',
+      defining: true,
+      parseDOM: [{ tag: 'blockquote' }],
+      toDOM() {
+        return blockquoteDOM;
+      },
+    } as NodeSpec,
+    // 分割线
+    horizontal_rule: {
+      group: 'block',
+      parseDOM: [{ tag: 'hr' }],
+      toDOM() {
+        return hrDOM;
+      },
+    } as NodeSpec,
+    // 标题
+    heading: {
+      // id 由 headingIdPlugin 统一分配, 这里不能用随机默认值 (只会求值一次)
+      attrs: { level: { default: 1 }, id: { default: null } },
+      content: 'inline*',
+      group: 'block',
+      defining: true,
+      parseDOM: [
+        {
+          tag: 'h1',
+          getAttrs(dom: HTMLElement) {
+            return {
+              level: 1,
+              id: dom.getAttribute('id'),
+            };
+          },
+        },
+        {
+          tag: 'h2',
+          getAttrs(dom: HTMLElement) {
+            return {
+              level: 2,
+              id: dom.getAttribute('id'),
+            };
+          },
+        },
+        {
+          tag: 'h3',
+          getAttrs(dom: HTMLElement) {
+            return {
+              level: 3,
+              id: dom.getAttribute('id'),
+            };
+          },
+        },
+        {
+          tag: 'h4',
+          getAttrs(dom: HTMLElement) {
+            return {
+              level: 4,
+              id: dom.getAttribute('id'),
+            };
+          },
+        },
+        {
+          tag: 'h5',
+          getAttrs(dom: HTMLElement) {
+            return {
+              level: 5,
+              id: dom.getAttribute('id'),
+            };
+          },
+        },
+        {
+          tag: 'h6',
+          getAttrs(dom: HTMLElement) {
+            return {
+              level: 6,
+              id: dom.getAttribute('id'),
+            };
+          },
+        },
+      ],
+      toDOM(node) {
+        return [
+          `h${node.attrs.level}`,
+          {
+            id: node.attrs.id,
+          },
+          0,
+        ];
+      },
+    } as NodeSpec,
+    // 行内代码
+    code_block: {
+      attrs: {
+        language: { default: null },
+      },
+      content: 'text*',
+      marks: '',
+      group: 'block',
+      code: true,
+      defining: true,
+      parseDOM: [
+        {
+          tag: 'pre',
+          preserveWhitespace: 'full',
+          getAttrs(dom) {
+            return { language: parseLanguage(dom as HTMLElement) };
+          },
+        },
+      ],
+      toDOM(node) {
+        const { language } = node.attrs;
+        if (!language) return preDOM;
+        return [
+          'pre',
+          { 'data-language': language },
+          ['code', { class: `language-${language}` }, 0],
+        ];
+      },
+    } as NodeSpec,
+    text: {
+      group: 'inline',
+    } as NodeSpec,
+    // 插入图片
+    image: {
+      inline: true,
+      attrs: {
+        src: {},
+        alt: { default: null },
+        title: { default: null },
+        width: { default: null },
+        height: { default: null },
+        // null 为行内, 可选 left / center / right
+        align: { default: null },
+      },
+      group: 'inline',
+      draggable: true,
+      parseDOM: [
+        {
+          tag: 'img[src]',
+          getAttrs(dom: HTMLElement) {
+            const size = (name: 'width' | 'height') => {
+              const value = parseInt(dom.getAttribute(name) || dom.style[name], 10);
+              return value > 0 ? value : null;
+            };
+            const align = dom.getAttribute('data-align');
+            return {
+              src: dom.getAttribute('src'),
+              title: dom.getAttribute('title'),
+              alt: dom.getAttribute('alt'),
+              width: size('width'),
+              height: size('height'),
+              align: align && ['left', 'center', 'right'].includes(align) ? align : null,
+            };
+          },
+        },
+      ],
+      toDOM(node) {
+        const { src, alt, title, width, height, align } = node.attrs;
+        return [
+          'img',
+          {
+            src,
+            alt,
+            title,
+            width,
+            height,
+            'data-align': align,
+            class: align ? `yl-image-align-${align}` : null,
+          },
+        ];
+      },
+    } as NodeSpec,
+    hard_break: {
+      inline: true,
+      group: 'inline',
+      selectable: false,
+      parseDOM: [{ tag: 'br' }],
+      toDOM() {
+        return brDOM;
+      },
+    } as NodeSpec,
+    // 自定义图片
+    dino: {
+      attrs: { type: { default: 'default-pic' } },
+      inline: true,
+      group: 'inline',
+      draggable: true,
+      parseDOM: [
+        {
+          // 未注册的贴纸也保留, 渲染为占位
+          tag: '[dino-type]',
+          // 优先于 image 的 img[src]
+          priority: 60,
+          getAttrs: (dom: Element) => {
+            const type: string = dom.getAttribute('dino-type') || '';
+            return STICKER_NAME.test(type) ? { type } : false;
+          },
+        },
+      ],
+      toDOM: (node: any) => {
+        const { type } = node.attrs;
+        const sticker = getSticker(type);
+        if (!sticker)
+          return [
+            'span',
+            {
+              'dino-type': type,
+              title: type,
+              class: 'custom-schema-assign-pic custom-schema-assign-pic-missing',
+            },
+            `:${type}:`,
+          ];
+        return [
+          'img',
+          {
+            'dino-type': type,
+            src: sticker.src,
+            alt: sticker.label,
+            title: sticker.label,
+            class: `custom-schema-assign-pic`,
+          },
+        ];
+      },
+    } as NodeSpec,
+    // 高亮块
+    highlightBlock: {
+      attrs: {
+        backgroundColor: { default: '#fff7e6' },
+        borderColor: { default: '#ffdfa3' },
+        emoji: { default: null },
+      },
+      content: 'block*',
+      // group: 'doc', // 不设置保证是doc的一代子节点
+      defining: true,
+      draggable: true,
+      parseDOM: [
+        {
+          tag: 'div.highlight-block-container',
+          contentElement: '.highlight-block-content',
+          getAttrs(dom: HTMLElement) {
+            const attrs: { [key: string]: string } = {};
+            const { backgroundColor, borderColor, emoji } = dom.dataset;
+            if (backgroundColor) attrs.backgroundColor = backgroundColor;
+            if (borderColor) attrs.borderColor = borderColor;
+            if (emoji) attrs.emoji = emoji;
+            return attrs;
+          },
+        },
+      ],
+
+      toDOM: (node: any) => {
+        const { attrs } = node;
+        const { backgroundColor, borderColor, emoji } = attrs;
+        return [
+          'div',
+          {
+            class: 'highlight-block-container',
+            'data-background-color': backgroundColor,
+            'data-border-color': borderColor,
+            'data-emoji': emoji,
+            style: `background-color: ${backgroundColor}; border-color: ${borderColor}`,
+          },
+          [
+            'div',
+            {
+              class: 'highlight-block-emoji',
+              contenteditable: 'false',
+            },
+            emoji || '',
+          ],
+          [
+            'div',
+            {
+              class: 'highlight-block-content',
+            },
+            0,
+          ],
+        ];
+      },
+    } as NodeSpec,
+  },
+  marks: {
+    link: {
+      attrs: {
+        href: {},
+        title: { default: null },
+      },
+      inclusive: false,
+      parseDOM: [
+        {
+          tag: 'a[href]',
+          getAttrs(dom: HTMLElement) {
+            return { href: dom.getAttribute('href'), title: dom.getAttribute('title') };
+          },
+        },
+      ],
+      toDOM(node) {
+        const { href, title } = node.attrs;
+        return ['a', { href, title }, 0];
+      },
+    } as MarkSpec,
+    em: {
+      parseDOM: [
+        { tag: 'i' },
+        { tag: 'em' },
+        { style: 'font-style=italic' },
+        { style: 'font-style=normal', clearMark: (m) => m.type.name == 'em' },
+      ],
+      toDOM() {
+        return emDOM;
+      },
+    } as MarkSpec,
+    strong: {
+      parseDOM: [
+        { tag: 'strong' },
+        {
+          tag: 'b',
+          getAttrs: (node: HTMLElement) => node.style.fontWeight != 'normal' && null,
+        },
+        { style: 'font-weight=400', clearMark: (m) => m.type.name == 'strong' },
+        {
+          style: 'font-weight',
+          getAttrs: (value: string) => /^(bold(er)?|[5-9]\d{2,})$/.test(value) && null,
+        },
+      ],
+      toDOM() {
+        return strongDOM;
+      },
+    } as MarkSpec,
+    code: {
+      parseDOM: [{ tag: 'code' }],
+      toDOM() {
+        return codeDOM;
+      },
+    } as MarkSpec,
+    // 修订模式: 建议插入 / 删除的内容, id 相同的为同一条修订
+    insertion: suggestionMark('ins', 'yl-suggestion-insert'),
+    deletion: suggestionMark('del', 'yl-suggestion-delete'),
+  },
+});
+export const resultSchema = new Schema({
+  // 监听list
+  nodes: addListNodes(schema.spec.nodes, 'paragraph block*', 'block')
+    .append({
+      // 任务列表
+      task_list: {
+        content: 'task_item+',
+        group: 'block',
+        parseDOM: [{ tag: 'ul[data-type="task-list"]', priority: 60 }],
+        toDOM() {
+          return ['ul', { 'data-type': 'task-list', class: 'task-list' }, 0];
+        },
+      } as NodeSpec,
+      task_item: {
+        attrs: { checked: { default: false } },
+        content: 'paragraph block*',
+        defining: true,
+        parseDOM: [
+          {
+            tag: 'li[data-type="task-item"]',
+            priority: 60,
+            getAttrs(dom: HTMLElement) {
+              return { checked: dom.getAttribute('data-checked') === 'true' };
+            },
+          },
+        ],
+        toDOM(node) {
+          const { checked } = node.attrs;
+          return [
+            'li',
+            {
+              'data-type': 'task-item',
+              'data-checked': String(checked),
+              class: 'task-item',
+            },
+            [
+              'input',
+              {
+                type: 'checkbox',
+                contenteditable: 'false',
+                ...(checked ? { checked: '' } : {}),
+              },
+            ],
+            ['div', { class: 'task-item-content' }, 0],
+          ];
+        },
+      } as NodeSpec,
+    })
+    .append(
+      // 表格: table / table_row / table_header / table_cell
+      tableNodes({
+        tableGroup: 'block',
+        cellContent: 'block+',
+        cellAttributes: {},
+      }),
+    ),
+  marks: schema.spec.marks,
+});
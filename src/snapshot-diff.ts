@@ -0,0 +1,256 @@
+import { type Node, Fragment, Mark } from 'prosemirror-model';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+
+// 两个版本的差异: 合并成一篇文档 (删除的内容保留在原位置), 用 decoration 标出改动
+export interface DocDiff {
+  doc: Node;
+  decorations: DecorationSet;
+  // 改动处数量, 0 表示没有差异
+  changes: number;
+}
+
+// 两边都有改动的部分超过这个规模时不再逐个比较, 全部显示为删除 + 插入
+const MAX_INLINE_CELLS = 4000000;
+
+// 最长公共子序列, 返回匹配的下标对
+const lcs = <T>(a: T[], b: T[], eq: (x: T, y: T) => boolean): [number, number][] => {
+  let start = 0;
+  while (start < a.length && start < b.length && eq(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && eq(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+  const n = endA - start;
+  const m = endB - start;
+  if (n && m && n * m <= MAX_INLINE_CELLS) {
+    // lengths[i * (m + 1) + j]: a[start + i..] 和 b[start + j..] 的公共长度
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--)
+      for (let j = m - 1; j >= 0; j--)
+        lengths[i * (m + 1) + j] = eq(a[start + i], b[start + j])
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (eq(a[start + i], b[start + j])) {
+        pairs.push([start + i++, start + j++]);
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) i++;
+      else j++;
+    }
+  }
+  for (let i = 0; i < a.length - endA; i++) pairs.push([endA + i, endB + i]);
+  return pairs;
+};
+
+const children = (fragment: Fragment) => {
+  const nodes: Node[] = [];
+  fragment.forEach((node) => nodes.push(node));
+  return nodes;
+};
+
+// 对齐两组子节点: 先对齐完全相同的节点, 中间的部分再按节点类型对齐,
+// 剩下的段落和标题之间按顺序配对 (修改了块类型)
+const align = (a: Node[], b: Node[]) => {
+  const pairs: [Node | null, Node | null][] = [];
+  const alignBy = (
+    a: Node[],
+    b: Node[],
+    eq: (x: Node, y: Node) => boolean,
+    gap: (a: Node[], b: Node[]) => void,
+  ) => {
+    let i = 0;
+    let j = 0;
+    [...lcs(a, b, eq), [a.length, b.length]].forEach(([nextA, nextB]) => {
+      gap(a.slice(i, nextA), b.slice(j, nextB));
+      if (nextA < a.length) pairs.push([a[nextA], b[nextB]]);
+      i = nextA + 1;
+      j = nextB + 1;
+    });
+  };
+  const zip = (a: Node[], b: Node[]) => {
+    for (let k = 0; k < Math.max(a.length, b.length); k++) {
+      const before = a[k] || null;
+      const after = b[k] || null;
+      if (before && after && before.isTextblock && after.isTextblock)
+        pairs.push([before, after]);
+      else {
+        if (before) pairs.push([before, null]);
+        if (after) pairs.push([null, after]);
+      }
+    }
+  };
+  alignBy(
+    a,
+    b,
+    (x, y) => x.eq(y),
+    (a, b) => alignBy(a, b, (x, y) => x.type === y.type, zip),
+  );
+  return pairs;
+};
+
+// 有变化的属性, 节点类型变化也算在内 (如段落改为标题)
+const attrChanges = (before: Node, after: Node) => {
+  const changes: string[] = [];
+  if (before.type !== after.type)
+    changes.push(`类型: ${before.type.name} → ${after.type.name}`);
+  const names = new Set([...Object.keys(before.attrs), ...Object.keys(after.attrs)]);
+  names.forEach((name) => {
+    const from = JSON.stringify(before.attrs[name] ?? null);
+    const to = JSON.stringify(after.attrs[name] ?? null);
+    if (from !== to) changes.push(`${name}: ${from} → ${to}`);
+  });
+  return changes;
+};
+
+class DiffBuilder {
+  decorations: Decoration[] = [];
+
+  block(from: number, node: Node, type: 'insert' | 'delete' | 'change', title?: string) {
+    const attrs: { [name: string]: string } = { class: `yl-diff-block-${type}` };
+    if (title) attrs.title = title;
+    this.decorations.push(Decoration.node(from, from + node.nodeSize, attrs));
+  }
+
+  inline(from: number, to: number, type: 'insert' | 'delete' | 'change') {
+    const last = this.decorations[this.decorations.length - 1];
+    // 相邻的同类改动合并为一处
+    if (last && last.to === from && last.spec.type === type && last.spec.inline) {
+      this.decorations.pop();
+      from = last.from;
+    }
+    this.decorations.push(
+      Decoration.inline(from, to, { class: `yl-diff-${type}` }, { type, inline: true }),
+    );
+  }
+
+  // 子节点列表: 对齐后逐对比较, 多出来的为删除 / 插入
+  fragment(before: Fragment, after: Fragment, pos: number) {
+    const a = children(before);
+    const b = children(after);
+    const nodes: Node[] = [];
+    const add = (node: Node) => {
+      nodes.push(node);
+      pos += node.nodeSize;
+    };
+    const addDeleted = (node: Node) => {
+      this.block(pos, node, 'delete');
+      add(node);
+    };
+    const addInserted = (node: Node) => {
+      this.block(pos, node, 'insert');
+      add(node);
+    };
+
+    align(a, b).forEach(([before, after]) => {
+      const merged = before && after && this.node(before, after, pos);
+      if (merged) add(merged);
+      else {
+        if (before) addDeleted(before);
+        if (after) addInserted(after);
+      }
+    });
+    return nodes;
+  }
+
+  // 比较同一位置的两个节点, 无法合并显示时返回 null
+  node(before: Node, after: Node, pos: number): Node | null {
+    const mark = this.decorations.length;
+    const changes = attrChanges(before, after);
+    let merged: Node | null = null;
+
+    if (before.isTextblock && after.isTextblock) {
+      const content = this.inlineContent(before, after, pos + 1);
+      // 两段都有内容但没有相同的文字时, 按整段删除 + 插入显示
+      const unrelated =
+        before.content.size &&
+        after.content.size &&
+        content.size === before.content.size + after.content.size;
+      if (!unrelated && after.type.validContent(content))
+        merged = after.type.create(after.attrs, content, after.marks);
+    } else if (before.type === after.type && before.isLeaf) {
+      merged = after;
+    } else if (before.type === after.type && !before.isTextblock) {
+      const content = Fragment.fromArray(
+        this.fragment(before.content, after.content, pos + 1),
+      );
+      if (after.type.validContent(content))
+        merged = after.type.create(after.attrs, content, after.marks);
+    }
+
+    if (!merged) {
+      this.decorations.length = mark;
+      return null;
+    }
+    if (changes.length) this.block(pos, merged, 'change', changes.join('\n'));
+    return merged;
+  }
+
+  // 段落内逐词比较, 中日韩文字逐字比较; 文字相同但 mark 不同时标为修改
+  inlineContent(before: Node, after: Node, pos: number) {
+    const a = inlineTokens(before);
+    const b = inlineTokens(after);
+    const nodes: Node[] = [];
+    const add = (node: Node, type?: 'insert' | 'delete' | 'change') => {
+      if (type) this.inline(pos, pos + node.nodeSize, type);
+      nodes.push(node);
+      pos += node.nodeSize;
+    };
+
+    let i = 0;
+    let j = 0;
+    [...lcs(a, b, sameToken), [a.length, b.length]].forEach(([nextA, nextB]) => {
+      a.slice(i, nextA).forEach((node) => add(node, 'delete'));
+      b.slice(j, nextB).forEach((node) => add(node, 'insert'));
+      if (nextA < a.length) {
+        const changed = !Mark.sameSet(a[nextA].marks, b[nextB].marks);
+        add(b[nextB], changed ? 'change' : undefined);
+      }
+      i = nextA + 1;
+      j = nextB + 1;
+    });
+    return Fragment.fromArray(nodes);
+  }
+}
+
+const TOKEN = /[\p{L}\p{N}_]+|\s+|./gsu;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// 文字拆成词, 行内原子节点 (图片, 表情等) 各自为一个 token
+const inlineTokens = (node: Node) => {
+  const tokens: Node[] = [];
+  node.forEach((child) => {
+    if (!child.isText) {
+      tokens.push(child);
+      return;
+    }
+    (child.text || '').match(TOKEN)?.forEach((word) => {
+      if (CJK.test(word))
+        Array.from(word).forEach((char) =>
+          tokens.push(child.type.schema.text(char, child.marks)),
+        );
+      else tokens.push(child.type.schema.text(word, child.marks));
+    });
+  });
+  return tokens;
+};
+
+const sameToken = (a: Node, b: Node) =>
+  a.isText && b.isText ? a.text === b.text : a.eq(b);
+
+export const diffDocs = (before: Node, after: Node): DocDiff => {
+  const builder = new DiffBuilder();
+  const content = Fragment.fromArray(builder.fragment(before.content, after.content, 0));
+  const doc = after.type.create(after.attrs, content);
+  const { decorations } = builder;
+  return {
+    doc,
+    decorations: DecorationSet.create(doc, decorations),
+    changes: decorations.length,
+  };
+};
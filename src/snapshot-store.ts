@@ -0,0 +1,106 @@
+// 文档版本快照: 保存 state.doc 的 JSON, 存储方式可替换
+export interface SnapshotInfo {
+  id: string;
+  name: string;
+  time: number;
+}
+
+export interface Snapshot extends SnapshotInfo {
+  doc: { [key: string]: any };
+}
+
+export interface SnapshotStore {
+  // 按时间从新到旧排列, 不含文档内容
+  list(): Promise<SnapshotInfo[]>;
+  get(id: string): Promise<Snapshot | null>;
+  put(snapshot: Snapshot): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const toInfo = ({ id, name, time }: Snapshot): SnapshotInfo => ({ id, name, time });
+
+const byTime = (a: SnapshotInfo, b: SnapshotInfo) => b.time - a.time;
+
+// ======================================================== //
+//                         内存存储                          //
+// ======================================================== //
+// 刷新页面后丢失, 用于测试或不支持 IndexedDB 的环境
+export class MemorySnapshotStore implements SnapshotStore {
+  snapshots = new Map<string, Snapshot>();
+
+  async list() {
+    return Array.from(this.snapshots.values()).map(toInfo).sort(byTime);
+  }
+
+  async get(id: string) {
+    return this.snapshots.get(id) || null;
+  }
+
+  async put(snapshot: Snapshot) {
+    this.snapshots.set(snapshot.id, snapshot);
+  }
+
+  async delete(id: string) {
+    this.snapshots.delete(id);
+  }
+}
+
+// ======================================================== //
+//                       IndexedDB 存储                      //
+// ======================================================== //
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error || new Error('IndexedDB request failed'));
+  });
+
+export class IndexedDBSnapshotStore implements SnapshotStore {
+  dbName: string;
+  storeName = 'snapshots';
+  db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'yl-editor-snapshots') {
+    this.dbName = dbName;
+  }
+
+  // 第一次使用时才打开数据库
+  open() {
+    if (!this.db) {
+      const req = indexedDB.open(this.dbName, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(this.storeName, { keyPath: 'id' });
+      };
+      this.db = request(req);
+      // 打开失败后允许重试
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  async list() {
+    const store = await this.objectStore('readonly');
+    const snapshots: Snapshot[] = await request(store.getAll());
+    return snapshots.map(toInfo).sort(byTime);
+  }
+
+  async get(id: string) {
+    const store = await this.objectStore('readonly');
+    const snapshot: Snapshot | undefined = await request(store.get(id));
+    return snapshot || null;
+  }
+
+  async put(snapshot: Snapshot) {
+    const store = await this.objectStore('readwrite');
+    await request(store.put(snapshot));
+  }
+
+  async delete(id: string) {
+    const store = await this.objectStore('readwrite');
+    await request(store.delete(id));
+  }
+}
@@ -0,0 +1,33 @@
+import testPic from './assets/test.jpg';
+
+// 贴纸: dino 节点的 type 属性即贴纸名
+export interface Sticker {
+  name: string;
+  label: string;
+  src: string;
+}
+
+export const STICKER_NAME = /^[\w-]+$/;
+
+const registry = new Map<string, Sticker>();
+
+export const registerSticker = (sticker: Sticker) => {
+  if (!STICKER_NAME.test(sticker.name))
+    throw new RangeError(`Invalid sticker name "${sticker.name}"`);
+  registry.set(sticker.name, sticker);
+};
+
+export const getSticker = (name: string) => registry.get(name) || null;
+
+export const listStickers = () => Array.from(registry.values());
+
+// 名称或说明包含 query 的贴纸, 名称以 query 开头的排在前面
+export const searchStickers = (query: string) => {
+  const q = query.toLowerCase();
+  const rank = ({ name }: Sticker) => (name.toLowerCase().startsWith(q) ? 0 : 1);
+  return listStickers()
+    .filter(({ name, label }) => name.toLowerCase().includes(q) || label.includes(query))
+    .sort((a, b) => rank(a) - rank(b));
+};
+
+registerSticker({ name: 'default-pic', label: '恐龙', src: testPic });
@@ -21,3 +21,15 @@ export const createElement = (
   innerHTML && (domNode.innerHTML = innerHTML);
   return domNode;
 };
+
+// 生成可读的锚点 slug, 保留中日韩等文字
+export const slugify = (text: string, maxLength = 64) =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .slice(0, maxLength)
+    .replace(/^-|-$/g, '');
@@ -0,0 +1,216 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import {
+  type PromptRenderer,
+  CheckboxField,
+  NumberField,
+  openPrompt,
+  prompt,
+  setPromptRenderer,
+  TextAreaField,
+  TextField,
+} from '../src/basic-prompt';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const dialog = () => document.querySelector('.ProseMirror-prompt') as HTMLElement;
+const form = () => dialog().querySelector('form') as HTMLFormElement;
+const inputs = () => Array.from(form().querySelectorAll('input, textarea'));
+const errors = () =>
+  Array.from(form().querySelectorAll<HTMLElement>('.ProseMirror-prompt-error')).map(
+    (error) => (error.hidden ? null : error.textContent),
+  );
+
+const key = (target: Element, key: string, init: KeyboardEventInit = {}) =>
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...init }));
+const submit = () => form().dispatchEvent(new Event('submit', { cancelable: true }));
+const type = (input: Element, value: string) => {
+  (input as HTMLInputElement).value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+let editor: HTMLElement;
+
+beforeEach(() => {
+  // 打开弹窗前聚焦的元素, 关闭后焦点回到这里
+  editor = document.body.appendChild(document.createElement('div'));
+  editor.tabIndex = 0;
+  editor.focus();
+});
+
+afterEach(() => {
+  if (dialog()) key(form(), 'Escape');
+  document.body.innerHTML = '';
+});
+
+describe('prompt fields', () => {
+  test('number and checkbox fields read typed values', async () => {
+    const result = prompt({
+      fields: {
+        width: new NumberField({ label: 'Width', value: 3, min: 1 }),
+        empty: new NumberField({ label: 'Empty' }),
+        agree: new CheckboxField({ label: 'Agree', value: true }),
+      },
+    });
+    submit();
+    expect(await result).toEqual({ width: 3, empty: null, agree: true });
+  });
+
+  test('shows errors inline until the value is fixed', async () => {
+    const result = prompt({
+      fields: {
+        width: new NumberField({ label: 'Width', min: 10 }),
+        name: new TextField({ label: 'Name', required: true }),
+      },
+    });
+    const [width, name] = inputs();
+    type(width, '5');
+    submit();
+    await flush();
+    expect(errors()).toEqual(['Must be at least 10', 'Required field']);
+    expect(dialog().getAttribute('role')).toBe('dialog');
+    expect(width.getAttribute('aria-invalid')).toBe('true');
+    expect(document.activeElement).toBe(width);
+
+    // 改正一个字段后, 另一个的提示仍然保留
+    type(width, '12');
+    await flush();
+    expect(errors()).toEqual([null, 'Required field']);
+    expect(width.hasAttribute('aria-invalid')).toBe(false);
+
+    type(name, 'a');
+    submit();
+    expect(await result).toEqual({ width: 12, name: 'a' });
+  });
+
+  test('waits for async validators', async () => {
+    const taken = ['admin'];
+    const result = prompt({
+      fields: {
+        name: new TextField({
+          label: 'Name',
+          validate: (value) =>
+            flush().then(() => (taken.includes(value) ? 'Name taken' : null)),
+        }),
+      },
+    });
+    const [name] = inputs();
+    type(name, 'admin');
+    submit();
+    await flush();
+    await flush();
+    expect(errors()).toEqual(['Name taken']);
+    expect(dialog()).not.toBe(null);
+
+    type(name, 'guest');
+    submit();
+    expect(await result).toEqual({ name: 'guest' });
+  });
+});
+
+describe('prompt dialog', () => {
+  test('traps Tab inside the dialog and restores focus on close', async () => {
+    // jsdom 没有布局, offsetParent 总是 null
+    const offsetParent = Object.getOwnPropertyDescriptor(
+      HTMLElement.prototype,
+      'offsetParent',
+    );
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      configurable: true,
+      get() {
+        return this.parentNode;
+      },
+    });
+    try {
+      const result = prompt({ fields: { name: new TextField({ label: 'Name' }) } });
+      const [name] = inputs();
+      const cancel = form().querySelector('.ProseMirror-prompt-cancel') as HTMLElement;
+      expect(document.activeElement).toBe(name);
+
+      cancel.focus();
+      key(cancel, 'Tab');
+      expect(document.activeElement).toBe(name);
+      key(name, 'Tab', { shiftKey: true });
+      expect(document.activeElement).toBe(cancel);
+
+      key(cancel, 'Escape');
+      expect(await result).toBe(null);
+      expect(document.activeElement).toBe(editor);
+    } finally {
+      Object.defineProperty(
+        HTMLElement.prototype,
+        'offsetParent',
+        offsetParent as PropertyDescriptor,
+      );
+    }
+  });
+
+  test('Enter submits, but only Mod-Enter submits from a text area', async () => {
+    const result = prompt({ fields: { text: new TextAreaField({ label: 'Text' }) } });
+    const [text] = inputs();
+    type(text, 'a');
+    key(text, 'Enter');
+    await flush();
+    expect(dialog()).not.toBe(null);
+
+    key(text, 'Enter', { ctrlKey: true });
+    expect(await result).toEqual({ text: 'a' });
+  });
+});
+
+describe('prompt API', () => {
+  test('resolves the cleaned values', async () => {
+    const result = prompt({
+      fields: {
+        name: new TextField({ label: 'Name', value: ' a ', clean: (v) => v.trim() }),
+      },
+    });
+    submit();
+    expect(await result).toEqual({ name: 'a' });
+  });
+
+  test('cancel, Escape and clicking outside all resolve to null', async () => {
+    const fields = { name: new TextField({ label: 'Name' }) };
+
+    const cancelled = prompt({ fields });
+    (form().querySelector('.ProseMirror-prompt-cancel') as HTMLElement).click();
+    expect(await cancelled).toBe(null);
+
+    const escaped = prompt({ fields });
+    key(inputs()[0], 'Escape');
+    expect(await escaped).toBe(null);
+
+    const outside = prompt({ fields });
+    // 点击外部的监听在打开 50ms 后才注册
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    editor.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+    expect(await outside).toBe(null);
+    expect(dialog()).toBe(null);
+  });
+
+  test('uses a custom renderer until it is reset', async () => {
+    const specs: string[] = [];
+    const renderer: PromptRenderer = async (spec) => {
+      specs.push(spec.title as string);
+      return { name: ' custom ' };
+    };
+    setPromptRenderer(renderer);
+    try {
+      const fields = { name: new TextField({ label: 'Name', clean: (v) => v.trim() }) };
+      expect(await prompt({ title: 'Rename', fields })).toEqual({ name: 'custom' });
+      expect(dialog()).toBe(null);
+
+      // 回调写法走同一个渲染器
+      const params = await new Promise((callback) =>
+        openPrompt({ title: 'Legacy', fields, callback }),
+      );
+      expect(params).toEqual({ name: 'custom' });
+      expect(specs).toEqual(['Rename', 'Legacy']);
+    } finally {
+      setPromptRenderer(null);
+    }
+    prompt({ fields: { name: new TextField({ label: 'Name' }) } });
+    expect(dialog()).not.toBe(null);
+  });
+});
@@ -0,0 +1,88 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { type Node } from 'prosemirror-model';
+import { describe, expect, test } from 'vitest';
+
+import { parseMarkdown, serializeMarkdown } from '../src/markdown';
+import { resultSchema as schema } from '../src/schema';
+
+// ======================================================== //
+//                   Markdown 往返测试                       //
+// ======================================================== //
+// fixtures/markdown 下的文件都是序列化后的标准格式:
+// 解析再序列化后应与原文件完全相同, 再次解析得到相同的文档
+const FIXTURES = join(__dirname, 'fixtures/markdown');
+
+describe('markdown round trip', () => {
+  readdirSync(FIXTURES)
+    .filter((name) => name.endsWith('.md'))
+    .forEach((name) => {
+      test(name, () => {
+        const markdown = readFileSync(join(FIXTURES, name), 'utf8');
+        const doc = parseMarkdown(markdown);
+        const serialized = serializeMarkdown(doc);
+        expect(serialized + '\n').toBe(markdown);
+        expect(parseMarkdown(serialized).eq(doc)).toBe(true);
+      });
+    });
+});
+
+describe('heading id', () => {
+  test('keeps CJK ids', () => {
+    const doc = parseMarkdown('## 中文标题 {#中文标题-2}\n');
+    const heading = doc.firstChild;
+    expect(heading?.attrs.id).toBe('中文标题-2');
+    expect(heading?.textContent).toBe('中文标题');
+    expect(serializeMarkdown(doc)).toBe('## 中文标题 {#中文标题-2}');
+  });
+});
+
+describe('image attrs', () => {
+  test('keeps size and alignment', () => {
+    const doc = parseMarkdown('![图](a.png){width=320 height=240 align=center}\n');
+    expect(doc.firstChild?.firstChild?.attrs).toEqual({
+      src: 'a.png',
+      alt: '图',
+      title: null,
+      width: 320,
+      height: 240,
+      align: 'center',
+    });
+  });
+
+  test('ignores invalid values', () => {
+    const doc = parseMarkdown('![图](a.png){width=0 align=top}\n');
+    const image = doc.firstChild?.firstChild;
+    expect(image?.attrs.width).toBe(null);
+    expect(image?.attrs.align).toBe(null);
+    expect(serializeMarkdown(doc)).toBe('![图](a.png)');
+  });
+});
+
+describe('table', () => {
+  test('parses the first row as header cells', () => {
+    const doc = parseMarkdown('| a | b |\n| --- | --- |\n| c |\n');
+    const table = doc.firstChild as Node;
+    expect(table.child(0).firstChild?.type.name).toBe('table_header');
+    expect(table.child(1).firstChild?.type.name).toBe('table_cell');
+    // 缺少的单元格补为空
+    expect(table.child(1).childCount).toBe(2);
+    expect(serializeMarkdown(doc)).toBe('| a | b |\n| --- | --- |\n| c |  |');
+  });
+
+  test('escapes pipes inside cells', () => {
+    const markdown = '| a \\| b | c |\n| --- | --- |';
+    const doc = parseMarkdown(markdown);
+    expect(doc.firstChild?.firstChild?.firstChild?.textContent).toBe('a | b');
+    expect(serializeMarkdown(doc)).toBe(markdown);
+  });
+
+  test('joins the paragraphs of a cell with spaces', () => {
+    const p = (text: string) => schema.node('paragraph', null, [schema.text(text)]);
+    const cell = schema.node('table_header', null, [p('a'), p('b')]);
+    const doc = schema.node('doc', null, [
+      schema.node('table', null, [schema.node('table_row', null, [cell])]),
+    ]);
+    expect(serializeMarkdown(doc)).toBe('| a b |\n| --- |');
+  });
+});
@@ -0,0 +1,104 @@
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { describe, expect, test } from 'vitest';
+
+import {
+  type DocJSON,
+  type LoadIssue,
+  DocumentLoadError,
+  loadDocument,
+  parseDocument,
+  registerMigration,
+  saveDocument,
+  schemaVersion,
+  serializeDocument,
+} from '../src/persistence';
+import { resultSchema as schema } from '../src/schema';
+
+const p = (...content: DocJSON[]): DocJSON => ({ type: 'paragraph', content });
+const text = (value: string, marks?: DocJSON['marks']): DocJSON => ({
+  type: 'text',
+  text: value,
+  marks,
+});
+
+const loadIssues = (doc: DocJSON): LoadIssue[] => {
+  try {
+    loadDocument({ version: 1, doc });
+  } catch (e) {
+    expect(e).toBeInstanceOf(DocumentLoadError);
+    return (e as DocumentLoadError).issues;
+  }
+  throw new Error('Expected the document to be rejected');
+};
+
+describe('save and load', () => {
+  test('stamps the schema version and keeps the selection', () => {
+    const doc = schema.node('doc', null, [
+      schema.node('paragraph', null, [schema.text('段落')]),
+    ]);
+    const state = EditorState.create({ doc, selection: TextSelection.create(doc, 2) });
+    const saved = saveDocument(state);
+    expect(saved.version).toBe(1);
+    expect(saved.selection).toEqual({ type: 'text', anchor: 2, head: 2 });
+
+    const loaded = parseDocument(serializeDocument(state));
+    expect(loaded.doc.eq(doc)).toBe(true);
+    expect(loaded.selection.from).toBe(2);
+  });
+
+  test('reports the path of every invalid node and mark', () => {
+    const issues = loadIssues({
+      type: 'doc',
+      content: [
+        p(text('a', [{ type: 'comic' }]), text('b', [{ type: 'link' }])),
+        { type: 'widget' },
+        p({ type: 'image' }),
+      ],
+    });
+    expect(issues).toEqual([
+      { path: 'content[0].content[0].marks[0]', message: 'Unknown mark "comic"' },
+      {
+        path: 'content[0].content[1].marks[0]',
+        message: 'Missing attributes href on mark link',
+      },
+      { path: 'content[1]', message: 'Unknown node type "widget"' },
+      { path: 'content[2].content[0]', message: 'Missing attributes src on image' },
+    ]);
+  });
+});
+
+// 迁移函数注册在模块级的表中, 这些用例按顺序执行
+describe('migrations', () => {
+  const v1 = { version: 1, doc: { type: 'doc', content: [p(text('旧'))] } };
+
+  test('rejects documents newer than the schema', () => {
+    expect(() => loadDocument({ ...v1, version: 2 })).toThrow(
+      'Document version 2 is newer than schema version 1',
+    );
+  });
+
+  test('run in version order and bump the saved version', () => {
+    const order: number[] = [];
+    // 注册顺序与版本无关
+    registerMigration(3, (doc) => {
+      order.push(3);
+      return { ...doc, content: [...(doc.content || []), p(text('v3'))] };
+    });
+    registerMigration(2, (doc) => {
+      order.push(2);
+      return { ...doc, content: [...(doc.content || []), p(text('v2'))] };
+    });
+    expect(schemaVersion()).toBe(3);
+
+    const state = loadDocument(v1);
+    expect(order).toEqual([2, 3]);
+    expect(state.doc.textContent).toBe('旧v2v3');
+    expect(saveDocument(state).version).toBe(3);
+  });
+
+  test('refuse to skip a missing version', () => {
+    registerMigration(5, (doc) => doc);
+    expect(() => loadDocument(v1)).toThrow('No migration registered for version 4');
+    expect(() => registerMigration(2, (doc) => doc)).toThrow(RangeError);
+  });
+});
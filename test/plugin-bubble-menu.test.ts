@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { type Node } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, describe, expect, test } from 'vitest';
+
+import { buildMenuItems } from '../src/basic';
+import { bubbleMenuPlugin } from '../src/plugin-bubble-menu';
+import { resultSchema as schema } from '../src/schema';
+
+const strong = schema.marks.strong.create();
+const doc = schema.node('doc', null, [
+  schema.node('paragraph', null, [schema.text('plain '), schema.text('bold', [strong])]),
+  schema.node('code_block', null, [schema.text('code')]),
+]);
+const CODE = doc.firstChild?.nodeSize as number;
+
+let view: EditorView;
+// jsdom 没有布局, 用固定坐标代替
+let coords = { left: 100, right: 100, top: 50, bottom: 60 };
+
+afterEach(() => view.destroy());
+
+const create = () => {
+  view = new EditorView(document.body.appendChild(document.createElement('div')), {
+    state: EditorState.create({
+      doc,
+      plugins: [bubbleMenuPlugin({ content: buildMenuItems(schema).bubbleMenu })],
+    }),
+  });
+  view.hasFocus = () => true;
+  view.posAtCoords = () => null;
+  view.coordsAtPos = (pos) => ({
+    ...coords,
+    left: coords.left + pos,
+    right: coords.left + pos,
+  });
+  return view;
+};
+
+const select = (from: number, to: number, start: Node = view.state.doc) =>
+  view.dispatch(view.state.tr.setSelection(TextSelection.create(start, from, to)));
+
+const menu = () => document.querySelector('.yl-bubble-menu') as HTMLElement;
+
+describe('bubble menu', () => {
+  test('shows above a text selection', () => {
+    create();
+    expect(menu().style.display).toBe('none');
+    select(1, 6);
+    expect(menu().style.display).toBe('');
+    // 同一行时在选区中间, jsdom 中菜单宽高为 0
+    expect(menu().style.left).toBe('103.5px');
+    expect(menu().style.top).toBe('42px');
+
+    select(3, 3);
+    expect(menu().style.display).toBe('none');
+  });
+
+  test('reflects the active marks of the selection', () => {
+    create();
+    select(8, 11);
+    const active = menu().querySelectorAll('.ProseMirror-menu-active');
+    expect(active).toHaveLength(1);
+    expect(active[0].getAttribute('title')).toBe('加粗');
+  });
+
+  test('stays hidden inside a code block', () => {
+    create();
+    select(CODE + 1, CODE + 4);
+    expect(menu().style.display).toBe('none');
+  });
+
+  test('waits for the mouse to be released', () => {
+    create();
+    view.dom.dispatchEvent(new MouseEvent('mousedown'));
+    select(1, 6);
+    expect(menu().style.display).toBe('none');
+    document.dispatchEvent(new MouseEvent('mouseup'));
+    expect(menu().style.display).toBe('');
+  });
+
+  test('repositions on scroll', () => {
+    create();
+    select(1, 6);
+    coords = { ...coords, top: 150, bottom: 160 };
+    window.dispatchEvent(new Event('scroll'));
+    expect(menu().style.top).toBe('142px');
+  });
+
+  test('is removed with the view', () => {
+    create().destroy();
+    expect(menu()).toBe(null);
+    create();
+  });
+});
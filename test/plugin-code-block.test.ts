@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { type Node, DOMParser, DOMSerializer } from 'prosemirror-model';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { type DecorationSet, EditorView } from 'prosemirror-view';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { buildInputRules } from '../src/basic';
+import { tokenize } from '../src/code-languages';
+import {
+  codeBlockKey,
+  codeBlockPlugin,
+  indentCode,
+  outdentCode,
+  selectCodeBlock,
+  setCodeBlockLanguage,
+} from '../src/plugin-code-block';
+import { resultSchema as schema } from '../src/schema';
+
+// 记录重新高亮的次数
+vi.mock('../src/code-languages', async () => {
+  const actual = await vi.importActual<typeof import('../src/code-languages')>(
+    '../src/code-languages',
+  );
+  return { ...actual, tokenize: vi.fn(actual.tokenize) };
+});
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const code = (language: string | null, text: string) =>
+  schema.node('code_block', { language }, text ? [schema.text(text)] : []);
+const p = (text: string) =>
+  schema.node('paragraph', null, text ? [schema.text(text)] : []);
+const doc = (...blocks: Node[]) => schema.node('doc', null, blocks);
+
+const create = (start: Node, from = 1, to = from) =>
+  EditorState.create({
+    doc: start,
+    selection: TextSelection.create(start, from, to),
+    plugins: [codeBlockPlugin()],
+  });
+
+const run = (state: EditorState, command: Command) => {
+  expect(command(state, (tr) => (state = state.apply(tr)))).toBe(true);
+  return state;
+};
+
+// 高亮装饰: [起点, 终点, class], inline 装饰的属性不在公开类型中
+type InlineDecoration = { from: number; to: number; type: { attrs: { class: string } } };
+const highlights = (state: EditorState) =>
+  (codeBlockKey.getState(state) as DecorationSet).find().map((deco) => {
+    const { from, to, type } = deco as unknown as InlineDecoration;
+    return [from, to, type.attrs.class];
+  });
+
+beforeEach(() => {
+  vi.mocked(tokenize).mockClear();
+});
+
+describe('code block language', () => {
+  const typeFence = (text: string) => {
+    const start = doc(p(text));
+    const view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({
+        doc: start,
+        selection: TextSelection.atEnd(start),
+        plugins: [buildInputRules(schema)],
+      }),
+    });
+    const { from } = view.state.selection;
+    const insert = () => view.state.tr.insertText(' ', from);
+    view.someProp('handleTextInput', (f) => f(view, from, from, ' ', insert));
+    view.destroy();
+    return view.state.doc.firstChild as Node;
+  };
+
+  test('the fence input rule takes an optional language', () => {
+    expect(typeFence('```ts').toJSON()).toEqual(code('ts', '').toJSON());
+    expect(typeFence('```').toJSON()).toEqual(code(null, '').toJSON());
+  });
+
+  test('is parsed from and serialized to the code class', () => {
+    const dom = document.createElement('div');
+    dom.innerHTML = '<pre><code class="hljs language-py">x = 1</code></pre>';
+    const parsed = DOMParser.fromSchema(schema).parse(dom);
+    expect(parsed.toJSON()).toEqual(doc(code('py', 'x = 1')).toJSON());
+
+    const out = document.createElement('div');
+    out.appendChild(DOMSerializer.fromSchema(schema).serializeFragment(parsed.content));
+    expect(out.innerHTML).toBe(
+      '<pre data-language="py"><code class="language-py">x = 1</code></pre>',
+    );
+  });
+});
+
+describe('code highlight', () => {
+  test('decorates tokens of known languages', () => {
+    const state = create(doc(code('ts', 'const a = 1'), code('nope', 'const')));
+    expect(highlights(state)).toEqual([
+      [1, 6, 'yl-code-keyword'],
+      [11, 12, 'yl-code-number'],
+    ]);
+  });
+
+  test('only recomputes changed code blocks', () => {
+    const first = code('ts', 'let a');
+    let state = create(doc(first, p('x'), code('js', 'let b')));
+    expect(tokenize).toHaveBeenCalledTimes(2);
+    // 第二个代码块的位置
+    const second = () => state.doc.child(0).nodeSize + state.doc.child(1).nodeSize;
+
+    // 编辑段落不重新高亮
+    state = state.apply(state.tr.insertText('y', first.nodeSize + 1));
+    expect(tokenize).toHaveBeenCalledTimes(2);
+
+    state = state.apply(state.tr.insertText('const ', 1));
+    expect(tokenize).toHaveBeenCalledTimes(3);
+    expect(highlights(state)).toEqual([
+      [1, 6, 'yl-code-keyword'],
+      [7, 10, 'yl-code-keyword'],
+      [second() + 1, second() + 4, 'yl-code-keyword'],
+    ]);
+
+    // 切换语言也会重新计算
+    state = run(state, setCodeBlockLanguage(second(), null));
+    expect(tokenize).toHaveBeenCalledTimes(4);
+    expect(highlights(state)).toHaveLength(2);
+  });
+});
+
+describe('code block keys', () => {
+  test('Tab indents the cursor or every selected line', () => {
+    expect(run(create(doc(code(null, 'a'))), indentCode).doc.textContent).toBe('  a');
+    const lines = doc(code(null, 'a\nb\nc'));
+    expect(run(create(lines, 2, 4), indentCode).doc.textContent).toBe('  a\n  b\nc');
+  });
+
+  test('Shift-Tab removes indentation from the selected lines', () => {
+    const lines = doc(code(null, '  a\n\tb\nc'));
+    expect(run(create(lines, 2, 8), outdentCode).doc.textContent).toBe('a\nb\nc');
+    expect(outdentCode(create(doc(p('a'))))).toBe(false);
+  });
+
+  test('Mod-a selects the block contents first', () => {
+    const state = run(create(doc(p('x'), code(null, 'abc')), 5), selectCodeBlock);
+    expect([state.selection.from, state.selection.to]).toEqual([4, 7]);
+    expect(selectCodeBlock(state)).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { type Node } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { parseMarkdown, serializeMarkdown } from '../src/markdown';
+import {
+  type CollabTransport,
+  CollabAuthority,
+  connectCollab,
+  createCollabUser,
+  localTransport,
+  webSocketTransport,
+} from '../src/plugin-collab';
+import { headingIdPlugin } from '../src/plugin-heading-id';
+import { resultSchema as schema } from '../src/schema';
+
+const views: EditorView[] = [];
+
+afterEach(() => {
+  views.splice(0).forEach((view) => view.destroy());
+});
+
+const connect = async (authority: CollabAuthority, name: string) => {
+  const { doc, plugins } = await connectCollab(
+    localTransport(authority),
+    schema,
+    createCollabUser(name),
+  );
+  const view = new EditorView(document.body.appendChild(document.createElement('div')), {
+    state: EditorState.create({ doc, plugins: [...plugins, headingIdPlugin()] }),
+  });
+  views.push(view);
+  return view;
+};
+
+// localTransport 的消息异步送达, 等待来回的消息处理完
+const flush = async () => {
+  for (let i = 0; i < 20; i++) await new Promise((resolve) => setTimeout(resolve));
+};
+
+const findNode = (doc: Node, name: string) => {
+  let found: { node: Node; pos: number } | null = null;
+  doc.descendants((node, pos) => {
+    if (!found && node.type.name === name) found = { node, pos };
+    return !found;
+  });
+  return found as unknown as { node: Node; pos: number };
+};
+
+const headingIds = (doc: Node) => {
+  const ids: string[] = [];
+  doc.descendants((node) => {
+    if (node.type.name === 'heading') ids.push(node.attrs.id);
+  });
+  return ids;
+};
+
+describe('collab', () => {
+  test('two clients converge on custom nodes and heading ids', async () => {
+    const authority = new CollabAuthority(
+      parseMarkdown(
+        [
+          '# 标题',
+          ':::highlight{bg=#fff7e6 border=#ffdfa3}\n高亮\n:::',
+          '段落 :dino[default-pic]:',
+        ].join('\n\n'),
+      ),
+    );
+    const a = await connect(authority, 'a');
+    const b = await connect(authority, 'b');
+    await flush();
+
+    // a: 修改高亮块属性, 在高亮块里插入贴纸
+    const highlight = findNode(a.state.doc, 'highlightBlock');
+    a.dispatch(
+      a.state.tr
+        .setNodeMarkup(highlight.pos, undefined, { ...highlight.node.attrs, emoji: '💡' })
+        .insert(highlight.pos + 2, schema.nodes.dino.create({ type: 'default-pic' })),
+    );
+    // b: 同时在末尾加一个没有 id 的标题, 光标不在标题内, 由 b 分配 id
+    const end = b.state.doc.content.size;
+    const tr = b.state.tr.insert(
+      end,
+      schema.nodes.heading.create({ level: 2 }, schema.text('标题')),
+    );
+    b.dispatch(tr.setSelection(TextSelection.create(tr.doc, 1)));
+    await flush();
+
+    expect(a.state.doc.eq(b.state.doc)).toBe(true);
+    expect(a.state.doc.eq(authority.doc)).toBe(true);
+    expect(headingIds(a.state.doc)).toEqual(['标题', '标题-1']);
+    expect(findNode(a.state.doc, 'highlightBlock').node.attrs.emoji).toBe('💡');
+    expect(serializeMarkdown(a.state.doc)).toBe(serializeMarkdown(b.state.doc));
+    expect(serializeMarkdown(a.state.doc).match(/:dino\[default-pic\]:/g)).toHaveLength(
+      2,
+    );
+  });
+
+  test('the authority answers steps it cannot apply', () => {
+    const authority = new CollabAuthority(parseMarkdown('段落'));
+    const replies: { type: string }[] = [];
+    const connection = authority.connect((message) => replies.push(JSON.parse(message)));
+    const user = createCollabUser('a');
+    connection.receive(JSON.stringify({ type: 'join', clientID: 'a', user }));
+    connection.receive('not json');
+    connection.receive(
+      JSON.stringify({
+        type: 'steps',
+        version: 0,
+        steps: [{ stepType: 'replace', from: 50, to: 60 }],
+      }),
+    );
+    expect(replies.map(({ type }) => type)).toEqual(['init', 'rejected']);
+    expect(replies[1]).toEqual({ type: 'rejected', version: 0, latest: 0 });
+  });
+});
+
+// 由测试推送消息和断开的传输
+const fakeTransport = () => {
+  const messages: ((message: string) => void)[] = [];
+  const closes: ((error: Error) => void)[] = [];
+  const transport: CollabTransport = {
+    send: () => undefined,
+    onMessage: (listener) => messages.push(listener),
+    onClose: (listener) => closes.push(listener),
+    close: () => undefined,
+  };
+  return {
+    transport,
+    receive: (raw: string) => messages.forEach((listener) => listener(raw)),
+    fail: (error: Error) => closes.forEach((listener) => listener(error)),
+  };
+};
+
+// 只实现 webSocketTransport 用到的部分
+class FakeWebSocket extends EventTarget {
+  static OPEN = 1;
+  static last: FakeWebSocket;
+  readyState = 0;
+  sent: string[] = [];
+
+  constructor(public url: string) {
+    super();
+    FakeWebSocket.last = this;
+  }
+
+  send(message: string) {
+    this.sent.push(message);
+  }
+
+  close(code = 1000) {
+    this.readyState = 3;
+    this.dispatchEvent(Object.assign(new Event('close'), { code }));
+  }
+}
+
+describe('collab connection', () => {
+  test('joining fails when the connection closes before the document arrives', async () => {
+    const { transport, fail } = fakeTransport();
+    const joined = connectCollab(transport, schema, createCollabUser('a'));
+    fail(new Error('closed'));
+    await expect(joined).rejects.toThrow('closed');
+  });
+
+  test('ignores messages that are not JSON', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { transport, receive } = fakeTransport();
+    const joined = connectCollab(transport, schema, createCollabUser('a'));
+    receive('not json');
+    expect(warn).toHaveBeenCalledWith('[collab] invalid message:', 'not json');
+    const doc = parseMarkdown('段落');
+    receive(
+      JSON.stringify({ type: 'init', doc: doc.toJSON(), version: 0, presence: [] }),
+    );
+    expect((await joined).doc.eq(doc)).toBe(true);
+    warn.mockRestore();
+  });
+
+  test('the WebSocket transport reports a failed connection once', () => {
+    const { WebSocket } = globalThis;
+    globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    try {
+      const errors: string[] = [];
+      const transport = webSocketTransport('ws://collab');
+      transport.onClose((error) => errors.push(error.message));
+      transport.send('queued');
+      FakeWebSocket.last.dispatchEvent(new Event('error'));
+      FakeWebSocket.last.close(1006);
+      expect(errors).toEqual(['WebSocket error on ws://collab']);
+      expect(FakeWebSocket.last.sent).toEqual([]);
+
+      // 主动关闭不算断开
+      const closed = webSocketTransport('ws://collab');
+      closed.onClose((error) => errors.push(error.message));
+      closed.close();
+      expect(errors).toHaveLength(1);
+    } finally {
+      globalThis.WebSocket = WebSocket;
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { history, redo, undo } from 'prosemirror-history';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { describe, expect, test } from 'vitest';
+
+import { parseMarkdown } from '../src/markdown';
+import {
+  addComment,
+  commentsKey,
+  commentsPlugin,
+  findCommentRange,
+} from '../src/plugin-comments';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const run = (state: EditorState, command: Command) => {
+  command(state, (tr) => (state = state.apply(tr)));
+  return state;
+};
+
+// 在 "world" 上添加评论
+const commented = () => {
+  const doc = parseMarkdown('first\n\nhello **world** again\n\nlast');
+  let state = EditorState.create({
+    doc,
+    plugins: [history(), commentsPlugin({ author: 'a' })],
+  });
+  const from = 14;
+  state = state.apply(
+    state.tr.setSelection(TextSelection.create(state.doc, from, from + 5)),
+  );
+  state = run(state, addComment('评论'));
+  const thread = commentsKey.getState(state)?.threads[0];
+  if (!thread) throw new Error('No comment added');
+  return { state, id: thread.id };
+};
+
+const text = (state: EditorState, id: string) => {
+  const range = findCommentRange(state, id);
+  return range && state.doc.textBetween(range.from, range.to);
+};
+
+const orphaned = (state: EditorState) => commentsKey.getState(state)?.threads[0].orphaned;
+
+describe('comments', () => {
+  test('anchors follow edits', () => {
+    const commentedState = commented();
+    const { id } = commentedState;
+    let { state } = commentedState;
+    expect(text(state, id)).toBe('world');
+    state = state.apply(state.tr.insertText('say ', 8));
+    expect(text(state, id)).toBe('world');
+  });
+
+  test('undoing a deletion restores the anchor', () => {
+    const commentedState = commented();
+    const { id } = commentedState;
+    let { state } = commentedState;
+    state = state.apply(state.tr.delete(14, 19));
+    expect(orphaned(state)).toBe(true);
+    state = run(state, undo);
+    expect(orphaned(state)).toBe(false);
+    expect(text(state, id)).toBe('world');
+    state = run(state, redo);
+    expect(orphaned(state)).toBe(true);
+    state = run(state, undo);
+    expect(text(state, id)).toBe('world');
+  });
+
+  test('undoing a larger deletion restores the anchor inside it', () => {
+    const commentedState = commented();
+    const { id } = commentedState;
+    let { state } = commentedState;
+    // 从第一段删除到最后一段中间
+    state = state.apply(state.tr.delete(0, 28));
+    expect(orphaned(state)).toBe(true);
+    state = state.apply(state.tr.insertText('x', state.doc.content.size - 1));
+    state = run(state, undo);
+    expect(orphaned(state)).toBe(true);
+    state = run(state, undo);
+    expect(orphaned(state)).toBe(false);
+    expect(text(state, id)).toBe('world');
+  });
+});
@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { type Node } from 'prosemirror-model';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import { foldPlugin, getFolded, toggleFold } from '../src/plugin-fold';
+import { resultSchema as schema } from '../src/schema';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const h = (level: number, text: string) =>
+  schema.node('heading', { level, id: text }, [schema.text(text)]);
+const p = (text: string) => schema.node('paragraph', null, [schema.text(text)]);
+
+// # A / 正文 / ## B / 正文 / # C
+const doc = schema.node('doc', null, [h(1, 'A'), p('a'), h(2, 'B'), p('b'), h(1, 'C')]);
+const posOf = (doc: Node, index: number) => {
+  let pos = 0;
+  for (let i = 0; i < index; i++) pos += doc.child(i).nodeSize;
+  return pos;
+};
+const A = posOf(doc, 0);
+const B = posOf(doc, 2);
+
+const create = (selection = 1) =>
+  EditorState.create({
+    doc,
+    selection: TextSelection.create(doc, selection),
+    plugins: [foldPlugin()],
+  });
+
+const run = (state: EditorState, command: Command) => {
+  command(state, (tr) => (state = state.apply(tr)));
+  return state;
+};
+
+describe('fold', () => {
+  test('folds a heading up to the next heading of the same level', () => {
+    const state = run(create(), toggleFold(A));
+    expect(getFolded(state)).toEqual([A]);
+    const view = new EditorView(document.createElement('div'), { state });
+    // a, ## B, b
+    expect(view.dom.querySelectorAll('.yl-fold-hidden')).toHaveLength(3);
+    expect(view.dom.querySelectorAll('.yl-fold-collapsed')).toHaveLength(1);
+    view.destroy();
+    expect(getFolded(run(state, toggleFold(A)))).toEqual([]);
+  });
+
+  test('only folds headings with content', () => {
+    const state = create();
+    expect(toggleFold(posOf(doc, 4))(state)).toBe(false);
+    expect(toggleFold(posOf(doc, 1))(state)).toBe(false);
+  });
+
+  test('maps folded headings through edits and drops deleted ones', () => {
+    let state = run(create(), toggleFold(B));
+    state = state.apply(state.tr.insert(0, p('new')));
+    const moved = B + p('new').nodeSize;
+    expect(getFolded(state)).toEqual([moved]);
+
+    const heading = state.doc.nodeAt(moved) as Node;
+    state = state.apply(state.tr.delete(moved, moved + heading.nodeSize));
+    expect(getFolded(state)).toEqual([]);
+  });
+
+  test('moves the cursor out of the section it folds', () => {
+    const inside = B + h(2, 'B').nodeSize + 1;
+    const state = run(create(inside), toggleFold(B));
+    expect(getFolded(state)).toEqual([B]);
+    expect(state.selection.from).toBe(B + h(2, 'B').nodeSize - 1);
+  });
+
+  test('unfolds when the selection enters the folded section', () => {
+    let state = run(create(), toggleFold(A));
+    const inside = A + h(1, 'A').nodeSize + 1;
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, inside)));
+    expect(getFolded(state)).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { type Attrs, type Node, DOMParser, DOMSerializer } from 'prosemirror-model';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import {
+  deleteHighlightBlock,
+  highlightBlockPlugin,
+  setHighlightBlock,
+  unwrapHighlightBlock,
+  updateHighlightBlock,
+} from '../src/plugin-highlight-block';
+import { resultSchema as schema } from '../src/schema';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const p = (text: string) => schema.node('paragraph', null, [schema.text(text)]);
+const doc = (...blocks: Node[]) => schema.node('doc', null, blocks);
+const block = (attrs: Attrs | null, ...content: Node[]) =>
+  schema.node('highlightBlock', attrs, content);
+const blue = { backgroundColor: '#e6f7ff', borderColor: '#91d5ff' };
+
+const create = (doc: Node, selection = 1) =>
+  EditorState.create({ doc, selection: TextSelection.create(doc, selection) });
+
+const run = (state: EditorState, command: Command) => {
+  expect(command(state, (tr) => (state = state.apply(tr)))).toBe(true);
+  return state;
+};
+
+describe('highlight block commands', () => {
+  test('setHighlightBlock wraps the selection and toggles back', () => {
+    let state = run(create(doc(p('a'), p('b'))), setHighlightBlock(blue));
+    expect(state.doc.toJSON()).toEqual(doc(block(blue, p('a')), p('b')).toJSON());
+
+    state = run(state, setHighlightBlock(blue));
+    expect(state.doc.toJSON()).toEqual(doc(p('a'), p('b')).toJSON());
+  });
+
+  test('unwrap lifts the content and drops an empty block', () => {
+    const state = create(doc(block(blue, p('a'), p('b')), p('c')));
+    expect(run(state, unwrapHighlightBlock(0)).doc.toJSON()).toEqual(
+      doc(p('a'), p('b'), p('c')).toJSON(),
+    );
+
+    const empty = create(doc(p('c'), block(null)));
+    expect(run(empty, unwrapHighlightBlock(3)).doc.toJSON()).toEqual(
+      doc(p('c')).toJSON(),
+    );
+    expect(unwrapHighlightBlock(0)(empty)).toBe(false);
+  });
+
+  test('updates attrs and deletes the block', () => {
+    let state = create(doc(block({ ...blue, emoji: '💡' }, p('a')), p('b')));
+    state = run(state, updateHighlightBlock(0, { backgroundColor: '#fff1f0' }));
+    expect(state.doc.firstChild?.attrs).toEqual({
+      backgroundColor: '#fff1f0',
+      borderColor: blue.borderColor,
+      emoji: '💡',
+    });
+    expect(run(state, deleteHighlightBlock(0)).doc.toJSON()).toEqual(
+      doc(p('b')).toJSON(),
+    );
+  });
+});
+
+describe('highlight block DOM', () => {
+  test('parses the colors and emoji back from HTML', () => {
+    const original = doc(block({ ...blue, emoji: '📌' }, p('a')));
+    const wrapper = document.createElement('div');
+    wrapper.appendChild(
+      DOMSerializer.fromSchema(schema).serializeFragment(original.content),
+    );
+    const parsed = DOMParser.fromSchema(schema).parse(wrapper);
+    expect(parsed.toJSON()).toEqual(original.toJSON());
+  });
+
+  test('the node view shows the emoji and unwraps from its toolbar', () => {
+    const view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({
+        doc: doc(block({ ...blue, emoji: '💡' }, p('a'))),
+        plugins: [highlightBlockPlugin()],
+      }),
+    });
+    expect(view.dom.querySelector('.highlight-block-emoji')?.textContent).toBe('💡');
+
+    const unwrap = Array.from(
+      view.dom.querySelectorAll('.highlight-block-toolbar-item'),
+    ).find((item) => item.textContent === '取消高亮') as HTMLElement;
+    unwrap.dispatchEvent(new MouseEvent('mousedown'));
+    expect(view.state.doc.toJSON()).toEqual(doc(p('a')).toJSON());
+    view.destroy();
+  });
+});
@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import { type Node, Slice } from 'prosemirror-model';
+import { EditorState } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  type UploadResult,
+  imageUploadPlugin,
+  imageUploadPluginKey,
+  uploadImages,
+} from '../src/plugin-image-upload';
+import { resultSchema as schema } from '../src/schema';
+
+const p = (text: string) => schema.node('paragraph', null, text ? schema.text(text) : []);
+
+// 由测试控制完成时机的上传
+const deferredUploader = () => {
+  const pending = new Map<
+    string,
+    { resolve: (r: UploadResult) => void; reject: (e: Error) => void }
+  >();
+  const uploader = (file: File) =>
+    new Promise<UploadResult>((resolve, reject) =>
+      pending.set(file.name, { resolve, reject }),
+    );
+  return { uploader, pending };
+};
+
+const image = (name: string) => new File(['x'], name, { type: 'image/png' });
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let view: EditorView;
+
+afterEach(() => {
+  view.destroy();
+  vi.restoreAllMocks();
+});
+
+const create = (...blocks: Node[]) => {
+  view = new EditorView(document.createElement('div'), {
+    state: EditorState.create({
+      doc: schema.node('doc', null, blocks),
+      plugins: [imageUploadPlugin()],
+    }),
+  });
+  return view;
+};
+
+const placeholders = () =>
+  imageUploadPluginKey
+    .getState(view.state)
+    ?.find()
+    .map((deco) => deco.from);
+
+// 文档中图片节点的位置和地址
+const images = () => {
+  const found: [number, string][] = [];
+  view.state.doc.descendants((node, pos) => {
+    if (node.type.name === 'image') found.push([pos, node.attrs.src]);
+  });
+  return found;
+};
+
+describe('image upload', () => {
+  test('concurrent uploads replace their own placeholders', async () => {
+    const { uploader, pending } = deferredUploader();
+    create(p('ab'));
+    const done = uploadImages(view, [image('a.png'), image('b.png')], 2, { uploader });
+    expect(placeholders()).toEqual([2, 2]);
+
+    pending.get('a.png')?.resolve({ src: 'a' });
+    await flush();
+    expect(images()).toEqual([[2, 'a']]);
+    // 另一个占位符留在新图片之后
+    expect(placeholders()).toEqual([3]);
+
+    pending.get('b.png')?.resolve({ src: 'b' });
+    await done;
+    expect(images()).toEqual([
+      [2, 'a'],
+      [3, 'b'],
+    ]);
+    expect(placeholders()).toEqual([]);
+  });
+
+  test('edits made while uploading move the placeholder', async () => {
+    const { uploader, pending } = deferredUploader();
+    create(p('ab'));
+    const done = uploadImages(view, [image('a.png')], 2, { uploader });
+    view.dispatch(view.state.tr.insertText('xyz', 1));
+    view.dispatch(view.state.tr.insert(0, p('new')));
+    expect(placeholders()).toEqual([10]);
+
+    pending.get('a.png')?.resolve({ src: 'a' });
+    await done;
+    expect(images()).toEqual([[10, 'a']]);
+    expect(view.state.doc.child(1).textContent).toBe('xyzab');
+  });
+
+  test('drops the image when its placeholder was deleted', async () => {
+    const { uploader, pending } = deferredUploader();
+    create(p('ab'), p('c'));
+    const done = uploadImages(view, [image('a.png')], 2, { uploader });
+    view.dispatch(view.state.tr.delete(0, 4));
+
+    pending.get('a.png')?.resolve({ src: 'a' });
+    await done;
+    expect(images()).toEqual([]);
+    expect(placeholders()).toEqual([]);
+  });
+
+  test('a failed upload removes its placeholder and reports the error', async () => {
+    const { uploader, pending } = deferredUploader();
+    const onError = vi.fn();
+    create(p('ab'));
+    const done = uploadImages(view, [image('a.png'), image('b.png')], 2, {
+      uploader,
+      onError,
+    });
+    pending.get('a.png')?.reject(new Error('offline'));
+    await flush();
+    expect(placeholders()).toEqual([2]);
+    expect(onError).toHaveBeenCalledWith(new Error('offline'), expect.any(File));
+
+    pending.get('b.png')?.resolve({ src: 'b' });
+    await done;
+    expect(images()).toEqual([[2, 'b']]);
+  });
+
+  test('paste catches errors thrown while handling a failed upload', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const plugin = imageUploadPlugin({
+      uploader: () => Promise.reject(new Error('offline')),
+      onError: () => {
+        throw new Error('handler failed');
+      },
+    });
+    view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({
+        doc: schema.node('doc', null, [p('ab')]),
+        plugins: [plugin],
+      }),
+    });
+    const event = {
+      clipboardData: { files: [image('a.png')] },
+      preventDefault: () => undefined,
+    } as unknown as ClipboardEvent;
+    expect(plugin.props.handlePaste?.call(plugin, view, event, Slice.empty)).toBe(true);
+    await flush();
+    expect(error).toHaveBeenCalledWith(new Error('handler failed'));
+    expect(placeholders()).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { type Mark, type Node, Fragment, Slice } from 'prosemirror-model';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import { isURL, linkPlugin, removeLink, setLink } from '../src/plugin-link';
+import { resultSchema as schema } from '../src/schema';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const plugin = linkPlugin();
+const link = (href: string) => schema.marks.link.create({ href });
+const text = (value: string, marks?: Mark[]) => schema.text(value, marks);
+const p = (...content: Node[]) => schema.node('paragraph', null, content);
+const doc = (...blocks: Node[]) => schema.node('doc', null, blocks);
+
+const create = (start: Node, from: number, to = from) =>
+  EditorState.create({ doc: start, selection: TextSelection.create(start, from, to) });
+
+// 插件的 props 只用到 view.state 和 view.dispatch
+const fakeView = (state: EditorState) => {
+  const view = {
+    state,
+    dispatch: (tr: Transaction) => (view.state = view.state.apply(tr)),
+  };
+  return view as unknown as EditorView;
+};
+
+const run = (state: EditorState, command: Command) => {
+  expect(command(state, (tr) => (state = state.apply(tr)))).toBe(true);
+  return state;
+};
+
+// 在光标处输入, 插件不处理时按默认方式插入
+const textInput = (view: EditorView, value: string) => {
+  const { from, to } = view.state.selection;
+  const insert = () => view.state.tr.insertText(value, from, to);
+  const handled = !!plugin.props.handleTextInput?.call(
+    plugin,
+    view,
+    from,
+    to,
+    value,
+    insert,
+  );
+  if (!handled) view.dispatch(insert());
+  return handled;
+};
+
+// 在段落末尾输入空格
+const typeSpace = (value: string) => {
+  const view = fakeView(create(doc(p(text(value))), value.length + 1));
+  textInput(view, ' ');
+  return view.state.doc;
+};
+
+describe('link detection', () => {
+  test('recognizes whole URLs only', () => {
+    expect(isURL('https://example.com/a?b=1')).toBe(true);
+    expect(isURL('www.example.com')).toBe(true);
+    expect(isURL('example.com')).toBe(false);
+    expect(isURL('https://example.com.')).toBe(false);
+    expect(isURL('see https://example.com')).toBe(false);
+  });
+
+  test('links a URL typed before a space', () => {
+    expect(typeSpace('see https://a.com/x').toJSON()).toEqual(
+      doc(
+        p(text('see '), text('https://a.com/x', [link('https://a.com/x')]), text(' ')),
+      ).toJSON(),
+    );
+  });
+
+  test('leaves trailing punctuation out of the link', () => {
+    expect(typeSpace('(https://a.com/x).').toJSON()).toEqual(
+      doc(
+        p(text('('), text('https://a.com/x', [link('https://a.com/x')]), text('). ')),
+      ).toJSON(),
+    );
+    expect(typeSpace('访问www.a.com。').toJSON()).toEqual(
+      doc(
+        p(text('访问'), text('www.a.com', [link('https://www.a.com')]), text('。 ')),
+      ).toJSON(),
+    );
+  });
+
+  test('does not relink or link plain words', () => {
+    const linked = doc(p(text('https://a.com', [link('https://b.com')])));
+    const view = fakeView(create(linked, 14));
+    expect(textInput(view, ' ')).toBe(false);
+    expect(typeSpace('hello').textContent).toBe('hello ');
+  });
+});
+
+describe('link paste', () => {
+  test('links URLs in pasted text', () => {
+    const view = fakeView(create(doc(p()), 1));
+    const slice = new Slice(Fragment.from(p(text('go https://a.com, now'))), 1, 1);
+    const pasted = plugin.props.transformPasted?.call(
+      plugin,
+      slice,
+      view,
+      false,
+    ) as Slice;
+    expect(pasted.content.toJSON()).toEqual(
+      Fragment.from(
+        p(text('go '), text('https://a.com', [link('https://a.com')]), text(', now')),
+      ).toJSON(),
+    );
+  });
+
+  test('pasting a URL over a selection links the selected text', () => {
+    const view = fakeView(create(doc(p(text('read this'))), 6, 10));
+    const event = {
+      clipboardData: { getData: () => ' https://a.com ' },
+    } as unknown as ClipboardEvent;
+    expect(plugin.props.handlePaste?.call(plugin, view, event, Slice.empty)).toBe(true);
+    expect(view.state.doc.toJSON()).toEqual(
+      doc(p(text('read '), text('this', [link('https://a.com')]))).toJSON(),
+    );
+  });
+});
+
+describe('link commands', () => {
+  const linked = doc(p(text('a '), text('link', [link('https://a.com')]), text(' b')));
+
+  test('removeLink removes the whole link around the cursor', () => {
+    const state = run(create(linked, 5), removeLink);
+    expect(state.doc.toJSON()).toEqual(doc(p(text('a link b'))).toJSON());
+    expect(removeLink(create(linked, 1))).toBe(false);
+  });
+
+  test('setLink edits the whole link around the cursor', () => {
+    const state = run(create(linked, 5), setLink({ href: 'www.b.com' }));
+    expect(state.doc.toJSON()).toEqual(
+      doc(p(text('a '), text('link', [link('https://www.b.com')]), text(' b'))).toJSON(),
+    );
+  });
+});
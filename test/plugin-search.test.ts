@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { history, undo } from 'prosemirror-history';
+import { type Node } from 'prosemirror-model';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import {
+  findNext,
+  replaceAll,
+  replaceNext,
+  searchPlugin,
+  searchPluginKey,
+} from '../src/plugin-search';
+import { resultSchema as schema } from '../src/schema';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const p = (...content: (string | Node)[]) =>
+  schema.node(
+    'paragraph',
+    null,
+    content.map((child) => (typeof child === 'string' ? schema.text(child) : child)),
+  );
+
+const search = (doc: Node, text: string, replace: string) => {
+  const state = EditorState.create({ doc, plugins: [history(), searchPlugin()] });
+  const query = { text, replace, caseSensitive: false, regex: false };
+  return state.apply(state.tr.setMeta(searchPluginKey, { open: true, query }));
+};
+
+const run = (state: EditorState, command: Command) => {
+  command(state, (tr) => (state = state.apply(tr)));
+  return state;
+};
+
+describe('search replace', () => {
+  test('an empty replacement only deletes the matched text', () => {
+    const quote = schema.node('blockquote', null, [p('foo')]);
+    const doc = schema.node('doc', null, [quote, p('bar foo')]);
+    const state = run(search(doc, 'foo', ''), replaceAll);
+    expect(state.doc.firstChild?.type.name).toBe('blockquote');
+    expect(state.doc.textBetween(0, state.doc.content.size, '|')).toBe('|bar ');
+  });
+
+  test('replacing keeps the marks of the match', () => {
+    const strong = schema.marks.strong.create();
+    const doc = schema.node('doc', null, [p(schema.text('foo', [strong]), ' foo')]);
+    let state = run(search(doc, 'foo', 'baz'), findNext);
+    state = run(state, replaceNext);
+    expect(state.doc.firstChild?.firstChild?.text).toBe('baz');
+    expect(state.doc.firstChild?.firstChild?.marks).toEqual([strong]);
+  });
+
+  test('typing right after replaceNext is a separate undo step', () => {
+    const doc = schema.node('doc', null, [p('foo foo')]);
+    let state = run(search(doc, 'foo', 'bar'), findNext);
+    state = run(state, replaceNext);
+    const replaced = state.doc;
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 4)));
+    state = state.apply(state.tr.insertText('!'));
+    state = run(state, undo);
+    expect(state.doc.eq(replaced)).toBe(true);
+    state = run(state, undo);
+    expect(state.doc.eq(doc)).toBe(true);
+  });
+});
+
+describe('search panel', () => {
+  test('handles the keys it lists in each field', () => {
+    const doc = schema.node('doc', null, [p('foo foo')]);
+    const view = new EditorView(
+      document.body.appendChild(document.createElement('div')),
+      {
+        state: search(doc, 'foo', 'bar'),
+      },
+    );
+    const panel = document.querySelector('.yl-search-panel') as HTMLElement;
+    const [find, replace] = Array.from(panel.querySelectorAll('input[type=text]'));
+    const press = (target: Element, key: string, shiftKey = false) => {
+      const event = new KeyboardEvent('keydown', {
+        key,
+        shiftKey,
+        bubbles: true,
+        cancelable: true,
+      });
+      target.dispatchEvent(event);
+      return event.defaultPrevented;
+    };
+    const current = () => view.state.selection.from;
+
+    expect(press(find, 'Enter')).toBe(true);
+    expect(current()).toBe(1);
+    expect(press(find, 'Enter')).toBe(true);
+    expect(current()).toBe(5);
+    expect(press(find, 'Enter', true)).toBe(true);
+    expect(current()).toBe(1);
+    expect(press(replace, 'Enter')).toBe(true);
+    expect(view.state.doc.textContent).toBe('bar foo');
+    expect(press(find, 'a')).toBe(false);
+
+    expect(press(replace, 'Escape')).toBe(true);
+    expect(searchPluginKey.getState(view.state)?.open).toBe(false);
+    view.destroy();
+  });
+});
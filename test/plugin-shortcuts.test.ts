@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { EditorState } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, describe, expect, test } from 'vitest';
+
+import { exampleSetup } from '../src/basic';
+import { shortcutGroups } from '../src/basic-keymap';
+import { codeBlockPlugin } from '../src/plugin-code-block';
+import { searchPlugin } from '../src/plugin-search';
+import { toggleShortcuts } from '../src/plugin-shortcuts';
+import { slashCommandPlugin } from '../src/plugin-slash-command';
+import { stickerSuggestPlugin } from '../src/plugin-sticker';
+import { resultSchema as schema } from '../src/schema';
+
+const views: EditorView[] = [];
+
+afterEach(() => {
+  views.splice(0).forEach((view) => view.destroy());
+});
+
+const create = (state: EditorState) => {
+  const view = new EditorView(document.body.appendChild(document.createElement('div')), {
+    state,
+  });
+  views.push(view);
+  return view;
+};
+
+describe('shortcuts overlay', () => {
+  test('lists the keys registered by every plugin', () => {
+    const view = create(
+      EditorState.create({
+        schema,
+        plugins: [
+          stickerSuggestPlugin(),
+          slashCommandPlugin({ commands: [] }),
+          ...exampleSetup({ schema }),
+          searchPlugin(),
+          codeBlockPlugin(),
+        ],
+      }),
+    );
+    toggleShortcuts(view.state, view.dispatch);
+
+    const overlay = document.querySelector('.yl-shortcuts-overlay') as HTMLElement;
+    expect(overlay.style.display).toBe('');
+    const groups = Array.from(overlay.querySelectorAll('.yl-shortcuts-group')).map(
+      (group) => group.textContent,
+    );
+    expect(groups).toEqual([
+      '贴纸补全 (输入 :名称)',
+      '斜杠命令 (段落开头输入 /)',
+      '编辑',
+      '基础',
+      '代码块',
+      '查找替换',
+    ]);
+    const descriptions = Array.from(
+      overlay.querySelectorAll('.yl-shortcuts-description'),
+    ).map((term) => term.textContent);
+    expect(descriptions).toContain('撤销');
+    expect(descriptions).toContain('向前删除');
+    expect(descriptions).toContain('下一个候选项');
+  });
+});
+
+describe('code block keys', () => {
+  const codeKeys = (state: EditorState) =>
+    shortcutGroups(state)
+      .find(({ title }) => title === '代码块')
+      ?.bindings.map(({ description, keys }) => [description, keys]);
+
+  test('follow the resolved bindings', () => {
+    const state = EditorState.create({
+      schema,
+      plugins: exampleSetup({
+        schema,
+        mapKeys: { selectCodeBlock: false, indentOrNextCell: 'Alt-Tab' },
+      }),
+    });
+    expect(codeKeys(state)).toEqual([
+      ['换行', ['Enter']],
+      ['缩进', ['Alt-Tab']],
+      ['取消缩进', ['Shift-Tab']],
+      ['跳出代码块', ['Mod-Enter', 'Shift-Enter']],
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { history, undo } from 'prosemirror-history';
+import { type Transaction, EditorState } from 'prosemirror-state';
+import { describe, expect, test } from 'vitest';
+
+import { parseMarkdown } from '../src/markdown';
+import { restoreSnapshot, snapshotPlugin } from '../src/plugin-snapshot';
+import { MemorySnapshotStore } from '../src/snapshot-store';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const run = (state: EditorState, command: Command) => {
+  command(state, (tr) => (state = state.apply(tr)));
+  return state;
+};
+
+describe('snapshot restore', () => {
+  test('is undone separately from the typing around it', () => {
+    const current = parseMarkdown('当前');
+    const snapshot = parseMarkdown('快照');
+    let state = EditorState.create({
+      doc: current,
+      plugins: [history(), snapshotPlugin({ store: new MemorySnapshotStore() })],
+    });
+    state = state.apply(state.tr.insertText('a', 1));
+    state = run(state, restoreSnapshot(snapshot));
+    expect(state.doc.eq(snapshot)).toBe(true);
+    // 紧接着输入, 在 newGroupDelay 之内
+    state = state.apply(state.tr.insertText('b', 1));
+
+    state = run(state, undo);
+    expect(state.doc.eq(snapshot)).toBe(true);
+    state = run(state, undo);
+    expect(state.doc.textContent).toBe('a当前');
+  });
+});
@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { type Node, DOMParser, DOMSerializer } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import { buildInputRules } from '../src/basic';
+import {
+  insertSticker,
+  stickerSuggestKey,
+  stickerSuggestPlugin,
+} from '../src/plugin-sticker';
+import { resultSchema as schema } from '../src/schema';
+import { getSticker, registerSticker, searchStickers } from '../src/stickers';
+
+registerSticker({ name: 'cat', label: '猫', src: 'cat.png' });
+registerSticker({ name: 'bobcat', label: '山猫', src: 'bobcat.png' });
+
+const p = (...content: Node[]) => schema.node('paragraph', null, content);
+const doc = (...blocks: Node[]) => schema.node('doc', null, blocks);
+const dino = (type: string) => schema.node('dino', { type });
+
+const parse = (html: string) => {
+  const dom = document.createElement('div');
+  dom.innerHTML = html;
+  return DOMParser.fromSchema(schema).parse(dom);
+};
+
+const serialize = (node: Node) => {
+  const dom = document.createElement('div');
+  dom.appendChild(DOMSerializer.fromSchema(schema).serializeFragment(node.content));
+  return dom.innerHTML;
+};
+
+// 在段落末尾逐字输入, 经过输入规则
+const typeText = (text: string) => {
+  const start = doc(p());
+  const view = new EditorView(document.createElement('div'), {
+    state: EditorState.create({
+      doc: start,
+      selection: TextSelection.create(start, 1),
+      plugins: [buildInputRules(schema)],
+    }),
+  });
+  for (const char of text) {
+    const { from, to } = view.state.selection;
+    const insert = () => view.state.tr.insertText(char, from, to);
+    if (!view.someProp('handleTextInput', (f) => f(view, from, to, char, insert)))
+      view.dispatch(insert());
+  }
+  view.destroy();
+  return view.state;
+};
+
+describe('sticker registry', () => {
+  test('rejects invalid names', () => {
+    expect(() => registerSticker({ name: 'a b', label: '', src: '' })).toThrow(
+      RangeError,
+    );
+    expect(getSticker('a b')).toBe(null);
+  });
+
+  test('searches names and labels, prefix matches first', () => {
+    expect(searchStickers('cat').map(({ name }) => name)).toEqual(['cat', 'bobcat']);
+    expect(searchStickers('山').map(({ name }) => name)).toEqual(['bobcat']);
+  });
+});
+
+describe('sticker node', () => {
+  test('renders registered stickers from the registry', () => {
+    expect(serialize(doc(p(dino('cat'))))).toBe(
+      '<p><img dino-type="cat" src="cat.png" alt="猫" title="猫" class="custom-schema-assign-pic"></p>',
+    );
+  });
+
+  test('keeps unknown stickers and renders a fallback', () => {
+    const parsed = parse('<p><img dino-type="gone" src="x.png"></p>');
+    expect(parsed.toJSON()).toEqual(doc(p(dino('gone'))).toJSON());
+    const fallback = serialize(parsed);
+    expect(fallback).toContain('custom-schema-assign-pic-missing');
+    expect(fallback).toContain(':gone:');
+    // 占位再解析回来仍是同一个贴纸
+    expect(parse(fallback).eq(parsed)).toBe(true);
+  });
+
+  test('insertSticker inserts at the selection', () => {
+    const start = doc(p(schema.text('ab')));
+    let state = EditorState.create({
+      doc: start,
+      selection: TextSelection.create(start, 2),
+    });
+    insertSticker('cat')(state, (tr) => (state = state.apply(tr)));
+    expect(state.doc.toJSON()).toEqual(
+      doc(p(schema.text('a'), dino('cat'), schema.text('b'))).toJSON(),
+    );
+  });
+});
+
+describe('sticker input', () => {
+  test('turns :name: into a sticker', () => {
+    expect(typeText('hi :cat:').doc.toJSON()).toEqual(
+      doc(p(schema.text('hi '), dino('cat'))).toJSON(),
+    );
+  });
+
+  test('leaves unknown names as text', () => {
+    expect(typeText(':nope:').doc.textContent).toBe(':nope:');
+  });
+
+  test('suggests stickers while typing :name', () => {
+    const start = doc(p());
+    let state = EditorState.create({ doc: start, plugins: [stickerSuggestPlugin()] });
+    state = state.apply(state.tr.insertText('x :ca', 1));
+    const active = stickerSuggestKey.getState(state)?.active;
+    expect(active?.items.map(({ name }) => name)).toEqual(['cat', 'bobcat']);
+    expect(active).toMatchObject({ from: 3, to: 6 });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  type Transaction,
+  EditorState,
+  PluginKey,
+  TextSelection,
+} from 'prosemirror-state';
+import { type EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import { type SuggestPopupState, suggestPopupPlugin } from '../src/plugin-suggest-popup';
+import { resultSchema as schema } from '../src/schema';
+
+const key = new PluginKey<SuggestPopupState<string>>('testSuggest');
+const executed: string[] = [];
+
+const plugin = suggestPopupPlugin<string>({
+  key,
+  title: '测试',
+  className: 'test-suggest',
+  // 段落以 @ 开头时触发
+  match: (state) => {
+    const { $from } = state.selection;
+    const match = /^@(\w*)$/.exec($from.parent.textContent);
+    return match ? { from: $from.start(), to: $from.pos, query: match[1] } : null;
+  },
+  items: (query) =>
+    ['apple', 'apricot', 'banana'].filter((item) => item.startsWith(query)),
+  execute: (_, item) => executed.push(item),
+  render: () => undefined,
+});
+
+const typed = (text: string) => {
+  const doc = schema.node('doc', null, [schema.node('paragraph')]);
+  const state = EditorState.create({ doc, plugins: [plugin] });
+  const tr = state.tr.insertText(text, 1);
+  return state.apply(tr.setSelection(TextSelection.atEnd(tr.doc)));
+};
+
+describe('suggest popup', () => {
+  test('opens on a match with items', () => {
+    const active = key.getState(typed('@ap'))?.active;
+    expect(active).toMatchObject({
+      from: 1,
+      to: 4,
+      items: ['apple', 'apricot'],
+      index: 0,
+    });
+    expect(key.getState(typed('@x'))?.active).toBe(null);
+    expect(key.getState(typed('ap'))?.active).toBe(null);
+  });
+
+  test('wraps the selected index', () => {
+    const state = typed('@ap');
+    const up = state.apply(state.tr.setMeta(key, { index: -1 }));
+    expect(key.getState(up)?.active?.index).toBe(1);
+    const down = up.apply(up.tr.setMeta(key, { index: 2 }));
+    expect(key.getState(down)?.active?.index).toBe(0);
+  });
+
+  test('stays closed after Escape until the match moves', () => {
+    const state = typed('@ap');
+    const dismissed = state.apply(state.tr.setMeta(key, { dismiss: true }));
+    expect(key.getState(dismissed)?.active).toBe(null);
+    const more = dismissed.apply(dismissed.tr.insertText('r'));
+    expect(key.getState(more)?.active).toBe(null);
+    const cleared = more.apply(more.tr.delete(1, more.doc.content.size - 1));
+    const again = cleared.apply(cleared.tr.insertText('@a'));
+    expect(key.getState(again)?.active?.items).toEqual(['apple', 'apricot']);
+  });
+});
+
+describe('suggest popup keys', () => {
+  // 插件的 props 只用到 view.state 和 view.dispatch
+  const fakeView = (state: EditorState) => {
+    const view = {
+      state,
+      dispatch: (tr: Transaction) => (view.state = view.state.apply(tr)),
+    };
+    return view as unknown as EditorView;
+  };
+
+  const press = (view: EditorView, name: string) =>
+    !!plugin.props.handleKeyDown?.call(plugin, view, { key: name } as KeyboardEvent);
+
+  test('moves, executes and dismisses with the keys it lists', () => {
+    const view = fakeView(typed('@ap'));
+    expect(press(view, 'ArrowDown')).toBe(true);
+    expect(key.getState(view.state)?.active?.index).toBe(1);
+    expect(press(view, 'ArrowUp')).toBe(true);
+    expect(key.getState(view.state)?.active?.index).toBe(0);
+
+    executed.splice(0);
+    expect(press(view, 'Tab')).toBe(true);
+    expect(executed).toEqual(['apple']);
+    expect(press(view, 'Escape')).toBe(true);
+    expect(key.getState(view.state)?.active).toBe(null);
+
+    expect(
+      plugin.spec.shortcuts.bindings.map(({ keys }: { keys: string[] }) => keys),
+    ).toEqual([['ArrowUp'], ['ArrowDown'], ['Enter', 'Tab'], ['Escape']]);
+  });
+
+  test('leaves keys alone while closed', () => {
+    const view = fakeView(typed('ap'));
+    expect(press(view, 'Enter')).toBe(false);
+    expect(press(view, 'Escape')).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+import { setBlockType, wrapIn } from 'prosemirror-commands';
+import { type Node } from 'prosemirror-model';
+import { type Transaction, EditorState, TextSelection } from 'prosemirror-state';
+import { describe, expect, test } from 'vitest';
+
+import {
+  acceptAllSuggestions,
+  acceptSuggestion,
+  findSuggestions,
+  rejectAllSuggestions,
+  rejectSuggestion,
+  suggestionPlugin,
+} from '../src/plugin-suggestion';
+import { resultSchema as schema } from '../src/schema';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const doc = schema.node('doc', null, [
+  schema.node('paragraph', null, [schema.text('段落')]),
+  schema.node('code_block', null, [schema.text('code')]),
+]);
+// 代码块内容的起点
+const CODE = doc.child(0).nodeSize + 1;
+
+const create = (enabled: boolean) =>
+  EditorState.create({ doc, plugins: [suggestionPlugin({ author: 'a', enabled })] });
+
+const marksAt = (doc: Node, pos: number) =>
+  doc.nodeAt(pos)?.marks.map((mark) => mark.type.name);
+
+describe('suggestion mode', () => {
+  test('records text edits as marks', () => {
+    const state = create(true);
+    const next = state.apply(state.tr.insertText('新', 1));
+    expect(next.doc.firstChild?.textContent).toBe('新段落');
+    expect(marksAt(next.doc, 1)).toEqual(['insertion']);
+  });
+
+  test('refuses edits it cannot record in code blocks', () => {
+    const state = create(true);
+    expect(state.apply(state.tr.insertText('x', CODE)).doc.eq(doc)).toBe(true);
+    expect(state.apply(state.tr.delete(CODE, CODE + 2)).doc.eq(doc)).toBe(true);
+    // 删除整个代码块
+    const { size } = doc.content;
+    expect(state.apply(state.tr.delete(CODE - 1, size)).doc.eq(doc)).toBe(true);
+    // 插入带内容的代码块
+    const code = schema.node('code_block', null, [schema.text('new')]);
+    expect(state.apply(state.tr.insert(0, code)).doc.eq(doc)).toBe(true);
+  });
+
+  test('allows code block edits when suggestion mode is off', () => {
+    const state = create(false);
+    const next = state.apply(state.tr.insertText('x', CODE));
+    expect(next.doc.lastChild?.textContent).toBe('xcode');
+  });
+});
+
+describe('tracked changes', () => {
+  const p = (text: string) =>
+    schema.node('paragraph', null, text ? [schema.text(text)] : []);
+  const paragraphs = schema.node('doc', null, [p('ab'), p('cd'), p('ef')]);
+
+  const start = (from = 1, to = from) =>
+    EditorState.create({
+      doc: paragraphs,
+      selection: TextSelection.create(paragraphs, from, to),
+      plugins: [suggestionPlugin({ author: 'a', enabled: true })],
+    });
+
+  const run = (state: EditorState, command: Command) => {
+    expect(command(state, (tr) => (state = state.apply(tr)))).toBe(true);
+    return state;
+  };
+
+  const texts = (doc: Node) => {
+    const result: string[] = [];
+    doc.forEach((node) => result.push(node.textContent));
+    return result;
+  };
+
+  // 第一条修订
+  const only = (state: EditorState) => {
+    const suggestions = findSuggestions(state);
+    expect(suggestions).toHaveLength(1);
+    return suggestions[0];
+  };
+
+  test('keeps deleted text with a deletion mark', () => {
+    const state = start();
+    const next = state.apply(state.tr.delete(1, 2));
+    expect(texts(next.doc)).toEqual(['ab', 'cd', 'ef']);
+    expect(marksAt(next.doc, 1)).toEqual(['deletion']);
+    expect(only(next)).toMatchObject({
+      kind: 'delete',
+      author: 'a',
+      ranges: [{ from: 1, to: 2, type: 'delete' }],
+    });
+  });
+
+  test('moves the cursor before text deleted with backspace', () => {
+    const state = start(3);
+    const next = state.apply(state.tr.delete(2, 3));
+    expect(marksAt(next.doc, 2)).toEqual(['deletion']);
+    expect(next.selection.from).toBe(2);
+  });
+
+  test('deleting an own insertion removes it', () => {
+    let state = start();
+    state = state.apply(state.tr.insertText('x', 1));
+    state = state.apply(state.tr.delete(1, 2));
+    expect(state.doc.eq(paragraphs)).toBe(true);
+    expect(findSuggestions(state)).toEqual([]);
+  });
+
+  test('records a replacement as one suggestion', () => {
+    const state = start(1, 3);
+    const next = state.apply(state.tr.insertText('x'));
+    expect(next.doc.firstChild?.textContent).toBe('abx');
+    expect(only(next)).toMatchObject({
+      kind: 'replace',
+      ranges: [
+        { from: 1, to: 3, type: 'delete' },
+        { from: 3, to: 4, type: 'insert' },
+      ],
+    });
+    expect(texts(run(next, acceptSuggestion(only(next))).doc)).toEqual(['x', 'cd', 'ef']);
+    expect(run(next, rejectSuggestion(only(next))).doc.eq(paragraphs)).toBe(true);
+  });
+
+  test('accepts and rejects insertions and deletions', () => {
+    let state = start();
+    state = state.apply(state.tr.insertText('x', 1));
+    const inserted = only(state);
+    expect(inserted.kind).toBe('insert');
+    expect(texts(run(state, acceptSuggestion(inserted)).doc)).toEqual([
+      'xab',
+      'cd',
+      'ef',
+    ]);
+    expect(marksAt(run(state, acceptSuggestion(inserted)).doc, 1)).toEqual([]);
+    expect(run(state, rejectSuggestion(inserted)).doc.eq(paragraphs)).toBe(true);
+
+    state = start();
+    state = state.apply(state.tr.delete(1, 2));
+    const deleted = only(state);
+    expect(texts(run(state, acceptSuggestion(deleted)).doc)).toEqual(['b', 'cd', 'ef']);
+    expect(run(state, rejectSuggestion(deleted)).doc.eq(paragraphs)).toBe(true);
+  });
+
+  test('accepting a deletion across paragraphs joins them', () => {
+    const state = start(2, 6);
+    const next = state.apply(state.tr.deleteSelection());
+    expect(texts(next.doc)).toEqual(['ab', 'cd', 'ef']);
+    expect(only(next).ranges).toEqual([{ from: 2, to: 6, type: 'delete' }]);
+    expect(texts(run(next, acceptAllSuggestions).doc)).toEqual(['ad', 'ef']);
+    expect(run(next, rejectAllSuggestions).doc.eq(paragraphs)).toBe(true);
+  });
+
+  test('refuses joins and whole block deletions it cannot record', () => {
+    const state = start();
+    // 合并段落
+    expect(state.apply(state.tr.delete(3, 5)).doc.eq(paragraphs)).toBe(true);
+    // 删除整个段落
+    expect(state.apply(state.tr.delete(4, 8)).doc.eq(paragraphs)).toBe(true);
+    expect(state.apply(state.tr.delete(4, 9)).doc.eq(paragraphs)).toBe(true);
+  });
+
+  test('records block type changes and restores them on reject', () => {
+    const state = run(start(), setBlockType(schema.nodes.heading, { level: 2 }));
+    const format = only(state);
+    expect(format).toMatchObject({ kind: 'format', from: 0, ranges: [] });
+    expect(state.doc.firstChild?.type.name).toBe('heading');
+
+    const accepted = run(state, acceptSuggestion(format));
+    expect(accepted.doc.firstChild?.type.name).toBe('heading');
+    expect(findSuggestions(accepted)).toEqual([]);
+    const rejected = run(state, rejectSuggestion(format));
+    expect(rejected.doc.eq(paragraphs)).toBe(true);
+    expect(findSuggestions(rejected)).toEqual([]);
+  });
+
+  test('changing a block back drops its suggestion', () => {
+    let state = run(start(), setBlockType(schema.nodes.heading, { level: 2 }));
+    state = run(state, setBlockType(schema.nodes.heading, { level: 3 }));
+    expect(only(state).kind).toBe('format');
+    state = run(state, setBlockType(schema.nodes.paragraph));
+    expect(state.doc.eq(paragraphs)).toBe(true);
+    expect(findSuggestions(state)).toEqual([]);
+  });
+
+  test('records wrapping and unwraps on reject', () => {
+    const state = run(start(5), wrapIn(schema.nodes.blockquote));
+    const wrap = only(state);
+    expect(wrap).toMatchObject({ kind: 'wrap', from: 4 });
+    expect(state.doc.child(1).type.name).toBe('blockquote');
+
+    expect(run(state, acceptSuggestion(wrap)).doc.child(1).type.name).toBe('blockquote');
+    const rejected = run(state, rejectSuggestion(wrap));
+    expect(rejected.doc.eq(paragraphs)).toBe(true);
+    expect(findSuggestions(rejected)).toEqual([]);
+  });
+
+  test('block suggestions follow their node', () => {
+    let state = run(start(5), setBlockType(schema.nodes.heading, { level: 1 }));
+    state = run(state, wrapIn(schema.nodes.blockquote));
+    expect(findSuggestions(state).map(({ kind, from }) => [kind, from])).toEqual([
+      ['wrap', 4],
+      ['format', 5],
+    ]);
+    // 拒绝包裹后内部的格式修订仍然有效
+    state = run(state, rejectSuggestion(findSuggestions(state)[0]));
+    expect(findSuggestions(state).map(({ kind, from }) => [kind, from])).toEqual([
+      ['format', 4],
+    ]);
+    expect(run(state, rejectAllSuggestions).doc.eq(paragraphs)).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+// @vitest-environment jsdom
+import { history, undo } from 'prosemirror-history';
+import { keydownHandler } from 'prosemirror-keymap';
+import { type Node } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, describe, expect, test } from 'vitest';
+
+import { buildInputRules, buildKeymap } from '../src/basic';
+import { taskListPlugin } from '../src/plugin-task-list';
+import { resultSchema as schema } from '../src/schema';
+
+const p = (text: string) => schema.node('paragraph', null, text ? schema.text(text) : []);
+const item = (checked: boolean, ...content: Node[]) =>
+  schema.node('task_item', { checked }, content);
+const list = (...items: Node[]) => schema.node('task_list', null, items);
+const doc = (...blocks: Node[]) => schema.node('doc', null, blocks);
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+const create = (doc: Node, selection: number) => {
+  view = new EditorView(document.body.appendChild(document.createElement('div')), {
+    state: EditorState.create({
+      doc,
+      selection: TextSelection.create(doc, selection),
+      plugins: [buildInputRules(schema), history(), taskListPlugin()],
+    }),
+  });
+  return view;
+};
+
+// 在光标处输入一个字符, 触发输入规则
+const type = (view: EditorView, text: string) => {
+  const { from, to } = view.state.selection;
+  const insert = () => view.state.tr.insertText(text, from, to);
+  if (!view.someProp('handleTextInput', (f) => f(view, from, to, text, insert)))
+    view.dispatch(insert());
+};
+
+const press = (view: EditorView, key: string, ctrlKey = false) =>
+  keydownHandler(buildKeymap(schema, {}))(
+    view,
+    new KeyboardEvent('keydown', { key, ctrlKey }),
+  );
+
+describe('task list input rule', () => {
+  test('turns "[ ] " and "[x] " into task items', () => {
+    const unchecked = create(doc(p('[ ]')), 4);
+    type(unchecked, ' ');
+    expect(unchecked.state.doc.toJSON()).toEqual(doc(list(item(false, p('')))).toJSON());
+
+    view?.destroy();
+    const checked = create(doc(p('[x]')), 4);
+    type(checked, ' ');
+    expect(checked.state.doc.firstChild?.firstChild?.attrs.checked).toBe(true);
+  });
+
+  test('joins a task list right above', () => {
+    const before = list(item(true, p('a')));
+    const view = create(doc(before, p('[ ]')), before.nodeSize + 4);
+    type(view, ' ');
+    expect(view.state.doc.toJSON()).toEqual(
+      doc(list(item(true, p('a')), item(false, p('')))).toJSON(),
+    );
+  });
+});
+
+describe('task item keys', () => {
+  test('Enter at the end starts an unchecked item', () => {
+    const view = create(doc(list(item(true, p('ab')))), 5);
+    expect(press(view, 'Enter')).toBe(true);
+    expect(view.state.doc.toJSON()).toEqual(
+      doc(list(item(true, p('ab')), item(false, p('')))).toJSON(),
+    );
+  });
+
+  test('sinks and lifts task items', () => {
+    const first = item(false, p('a'));
+    const flat = doc(list(first, item(true, p('b'))));
+    const view = create(flat, 1 + first.nodeSize + 2);
+    expect(press(view, ']', true)).toBe(true);
+    const nested = list(item(false, p('a'), list(item(true, p('b')))));
+    expect(view.state.doc.toJSON()).toEqual(doc(nested).toJSON());
+
+    expect(press(view, '[', true)).toBe(true);
+    expect(view.state.doc.toJSON()).toEqual(flat.toJSON());
+  });
+});
+
+describe('task item view', () => {
+  test('the checkbox toggles the item in an undoable step', () => {
+    const view = create(doc(list(item(false, p('a')))), 3);
+    const checkbox = view.dom.querySelector('input[type="checkbox"]') as HTMLInputElement;
+    checkbox.checked = true;
+    checkbox.dispatchEvent(new Event('change'));
+    expect(view.state.doc.firstChild?.firstChild?.attrs.checked).toBe(true);
+    expect(view.dom.querySelector('.task-item')?.getAttribute('data-checked')).toBe(
+      'true',
+    );
+
+    undo(view.state, view.dispatch);
+    expect(view.state.doc.firstChild?.firstChild?.attrs.checked).toBe(false);
+    expect(checkbox.checked).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { EditorState } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { TocPlugin } from '../src/plugin-toc';
+import { resultSchema as schema } from '../src/schema';
+
+const h = (level: number, text: string) =>
+  schema.node('heading', { level, id: text }, [schema.text(text)]);
+const p = (text: string) => schema.node('paragraph', null, [schema.text(text)]);
+
+const doc = schema.node('doc', null, [h(1, 'a'), p('正文'), h(2, 'b'), p('正文')]);
+const B = doc.child(0).nodeSize + doc.child(1).nodeSize;
+
+let view: EditorView;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  // jsdom 没有实现滚动
+  Element.prototype.scrollIntoView = () => undefined;
+  view = new EditorView(document.body.appendChild(document.createElement('div')), {
+    state: EditorState.create({
+      doc,
+      plugins: [TocPlugin({ limit: 0, mode: 'textSize' })],
+    }),
+  });
+});
+
+afterEach(() => {
+  view.destroy();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const item = (id: string) =>
+  view.dom.querySelector(`.yl-toc-item[data-id="${id}"]`) as HTMLElement;
+
+describe('toc', () => {
+  test('selects and briefly highlights the clicked heading', () => {
+    (item('b').querySelector('.item-text-content') as HTMLElement).click();
+    expect(view.state.selection.from).toBe(B + 1);
+    const heading = view.nodeDOM(B) as HTMLElement;
+    expect(heading.classList.contains('yl-toc-heading-highlight')).toBe(true);
+
+    vi.advanceTimersByTime(1500);
+    expect(heading.classList.contains('yl-toc-heading-highlight')).toBe(false);
+  });
+
+  test('marks the last heading scrolled past the top as active', () => {
+    const tops = [-200, 300];
+    [0, B].forEach((pos, i) => {
+      const dom = view.nodeDOM(pos) as HTMLElement;
+      dom.getBoundingClientRect = () => ({ top: tops[i] } as DOMRect);
+    });
+    view.dispatch(view.state.tr);
+    expect(item('a').classList.contains('yl-toc-item-active')).toBe(true);
+    expect(item('b').classList.contains('yl-toc-item-active')).toBe(false);
+
+    tops[1] = 40;
+    view.dispatch(view.state.tr);
+    expect(item('b').classList.contains('yl-toc-item-active')).toBe(true);
+  });
+});
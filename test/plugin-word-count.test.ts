@@ -0,0 +1,116 @@
+import { Fragment, Slice } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { type DecorationSet, type EditorView } from 'prosemirror-view';
+import { describe, expect, test } from 'vitest';
+
+import { type WordCountState, wordCountPlugin } from '../src/plugin-word-count';
+import { resultSchema as schema } from '../src/schema';
+
+const p = (text: string) => schema.node('paragraph', null, text ? schema.text(text) : []);
+
+// 把 slice 粘贴到文档末尾, 返回粘贴后的文档
+const paste = (options: Parameters<typeof wordCountPlugin>[0], slice: Slice) => {
+  const plugin = wordCountPlugin(options);
+  const doc = schema.node('doc', null, [p('abc')]);
+  let state = EditorState.create({ doc, plugins: [plugin] });
+  state = state.apply(state.tr.setSelection(TextSelection.atEnd(state.doc)));
+  const transformPasted = plugin.props.transformPasted as (
+    slice: Slice,
+    view: EditorView,
+  ) => Slice;
+  const pasted = transformPasted.call(plugin, slice, { state } as EditorView);
+  return state.apply(state.tr.replaceSelection(pasted)).doc;
+};
+
+const count = (text: string, from?: number, to?: number) => {
+  const plugin = wordCountPlugin({ limit: 0, mode: 'textSize' });
+  const doc = schema.node('doc', null, text.split('\n').map(p));
+  let state = EditorState.create({ doc, plugins: [plugin] });
+  if (from != null)
+    state = state.apply(state.tr.setSelection(TextSelection.create(doc, from, to)));
+  return plugin.getState(state) as WordCountState;
+};
+
+// 超出 softLimit 的内容上的 inline 装饰范围
+const overflow = (options: Parameters<typeof wordCountPlugin>[0], texts: string[]) => {
+  const plugin = wordCountPlugin(options);
+  const state = EditorState.create({
+    doc: schema.node('doc', null, texts.map(p)),
+    plugins: [plugin],
+  });
+  const decorations = plugin.props.decorations?.call(plugin, state) as DecorationSet;
+  return decorations
+    .find()
+    .filter((deco) => deco.from < deco.to)
+    .map((deco) => [deco.from, deco.to]);
+};
+
+describe('word count', () => {
+  test('counts each CJK character as a word', () => {
+    expect(count('中文字符计数')).toMatchObject({ characters: 6, words: 6 });
+    expect(count('ひらがなカタカナ')).toMatchObject({ words: 8 });
+    expect(count('한국어')).toMatchObject({ words: 3 });
+  });
+
+  test('counts Latin text by words next to CJK characters', () => {
+    expect(count('我爱 ProseMirror 编辑器').words).toBe(6);
+    expect(count('共 3 个 emoji-like 词').words).toBe(6);
+  });
+
+  test('ignores punctuation and counts sentences', () => {
+    const stats = count('你好，世界！Hello, world.\n……');
+    expect(stats).toMatchObject({ words: 6, sentences: 2, paragraphs: 2 });
+  });
+
+  test('estimates the reading time per script', () => {
+    expect(count('字'.repeat(600)).readingTime).toBe(2);
+    expect(count('word '.repeat(200)).readingTime).toBe(1);
+    expect(count('').readingTime).toBe(0);
+  });
+
+  test('counts the selection separately', () => {
+    // 选中 "字 ab" 和下一段的 "b"
+    const stats = count('中文字 ab\nbc', 3, 10);
+    expect(stats.words).toBe(5);
+    expect(stats.selection).toMatchObject({ characters: 5, words: 3, paragraphs: 2 });
+    expect(count('中文').selection).toBe(null);
+  });
+});
+
+describe('word count limit', () => {
+  // 三个段落, 两端都是开放的, 粘贴后合并到当前段落
+  const slice = new Slice(Fragment.fromArray([p('ab'), p('cd'), p('ef')]), 1, 1);
+
+  test('nodeSize mode truncates a multi-block paste by position', () => {
+    // 当前文档 nodeSize 为 7, 剩余 6 个位置: "ab" + 段落边界 + "cd"
+    const doc = paste({ limit: 13, mode: 'nodeSize' }, slice);
+    expect(doc.nodeSize).toBe(13);
+    expect(doc.childCount).toBe(2);
+    expect(doc.textBetween(0, doc.content.size, '|')).toBe('abcab|cd');
+  });
+
+  test('nodeSize mode keeps a paste that fits', () => {
+    const doc = paste({ limit: 17, mode: 'nodeSize' }, slice);
+    expect(doc.nodeSize).toBe(17);
+    expect(doc.textBetween(0, doc.content.size, '|')).toBe('abcab|cd|ef');
+  });
+
+  test('textSize mode truncates by characters', () => {
+    const doc = paste({ limit: 6, mode: 'textSize' }, slice);
+    expect(doc.textBetween(0, doc.content.size, '|')).toBe('abcab|c');
+  });
+
+  test('nodeSize mode decorates the overflow from a document position', () => {
+    // nodeSize 为 13, 保留 "abc" 和空的第二段时正好为 9
+    expect(
+      overflow({ limit: 20, softLimit: 9, mode: 'nodeSize' }, ['abc', 'defg']),
+    ).toEqual([[6, 11]]);
+    // 保留 "abc", "d" 时为 10
+    expect(
+      overflow({ limit: 20, softLimit: 10, mode: 'nodeSize' }, ['abc', 'defg']),
+    ).toEqual([[7, 11]]);
+    expect(
+      overflow({ limit: 20, softLimit: 13, mode: 'nodeSize' }, ['abc', 'defg']),
+    ).toEqual([]);
+  });
+});
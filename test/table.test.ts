@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { keydownHandler } from 'prosemirror-keymap';
+import { type MenuItem } from 'prosemirror-menu';
+import { type Node } from 'prosemirror-model';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { afterEach, describe, expect, test } from 'vitest';
+
+import { buildKeymap, buildMenuItems } from '../src/basic';
+import { resultSchema as schema } from '../src/schema';
+
+const p = (text: string) => schema.node('paragraph', null, text ? schema.text(text) : []);
+const row = (type: string, ...texts: string[]) =>
+  schema.node(
+    'table_row',
+    null,
+    texts.map((text) => schema.node(type, null, [p(text)])),
+  );
+const table = schema.node('table', null, [
+  row('table_header', 'a', 'b'),
+  row('table_cell', 'c', 'd'),
+]);
+
+const create = (doc: Node, selection: number) =>
+  EditorState.create({ doc, selection: TextSelection.create(doc, selection) });
+
+const selected = (state: EditorState) =>
+  state.doc.textBetween(state.selection.from, state.selection.to);
+
+// 表格菜单项直接执行命令, 不需要视图
+const run = (state: EditorState, item: MenuItem) => {
+  item.spec.run(state, (tr) => (state = state.apply(tr)), null as never, null as never);
+  return state;
+};
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+describe('table keymap', () => {
+  const press = (state: EditorState, key: string, shiftKey = false) => {
+    const handler = keydownHandler(buildKeymap(schema, {}));
+    const fake = {
+      state,
+      dispatch: (tr: never) => (fake.state = fake.state.apply(tr)),
+    } as unknown as EditorView;
+    const event = new KeyboardEvent('keydown', { key, shiftKey });
+    expect(handler(fake, event)).toBe(true);
+    return fake.state;
+  };
+
+  test('Tab and Shift-Tab move between cells', () => {
+    // 光标在 "a" 中
+    let state = create(schema.node('doc', null, [table]), 4);
+    state = press(state, 'Tab');
+    expect(selected(state)).toBe('b');
+    state = press(state, 'Tab');
+    expect(selected(state)).toBe('c');
+    state = press(state, 'Tab', true);
+    expect(selected(state)).toBe('b');
+  });
+});
+
+describe('table menu', () => {
+  const items = buildMenuItems(schema);
+
+  test('inserts a table of the picked size with a header row', () => {
+    const doc = schema.node('doc', null, [p('')]);
+    view = new EditorView(document.body.appendChild(document.createElement('div')), {
+      state: create(doc, 1),
+    });
+    const button = document.body.appendChild(document.createElement('button'));
+    items.insertTable.spec.run(view.state, view.dispatch, view, {
+      target: button,
+    } as never);
+
+    const picker = document.querySelector('.ProseMirror-table-picker') as HTMLElement;
+    const cell = picker.querySelector('[data-row="3"][data-col="2"]') as HTMLElement;
+    cell.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(picker.textContent).toBe('3 x 2');
+    cell.dispatchEvent(new MouseEvent('mousedown'));
+    expect(document.querySelector('.ProseMirror-table-picker')).toBe(null);
+
+    const inserted = view.state.doc.firstChild as Node;
+    expect(inserted.type.name).toBe('table');
+    expect(inserted.childCount).toBe(3);
+    const types: string[] = [];
+    inserted.forEach((tableRow) => {
+      expect(tableRow.childCount).toBe(2);
+      types.push(tableRow.firstChild?.type.name as string);
+    });
+    expect(types).toEqual(['table_header', 'table_cell', 'table_cell']);
+  });
+
+  test('row and column commands only apply inside a table', () => {
+    const doc = schema.node('doc', null, [p('x'), table]);
+    const outside = create(doc, 1);
+    const inside = create(doc, p('x').nodeSize + 4);
+    const commands = [items.addRowAfter, items.deleteColumn, items.deleteTable];
+    commands.forEach((item) => {
+      expect(item.spec.select?.(outside)).toBe(false);
+      expect(item.spec.select?.(inside)).toBe(true);
+    });
+
+    let state = run(inside, items.addRowAfter);
+    expect(state.doc.child(1).childCount).toBe(3);
+    state = run(state, items.deleteColumn);
+    expect(state.doc.child(1).firstChild?.childCount).toBe(1);
+    state = run(state, items.deleteTable);
+    expect(state.doc.childCount).toBe(1);
+  });
+});